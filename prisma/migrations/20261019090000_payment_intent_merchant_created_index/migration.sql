@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "PaymentIntent_merchant_createdAt_idx" ON "PaymentIntent"("merchant", "createdAt");
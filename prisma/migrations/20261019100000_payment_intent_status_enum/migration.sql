@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "PaymentIntentStatus" AS ENUM ('pending', 'succeeded', 'failed', 'expired', 'canceled');
+
+-- AlterTable
+ALTER TABLE "PaymentIntent" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "PaymentIntent" ALTER COLUMN "status" TYPE "PaymentIntentStatus" USING ("status"::"PaymentIntentStatus");
+ALTER TABLE "PaymentIntent" ALTER COLUMN "status" SET DEFAULT 'pending';
+ALTER TABLE "PaymentIntent" ADD COLUMN "canceledAt" TIMESTAMP(3),
+ADD COLUMN "cancellationReason" TEXT;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 3;
+
+-- CreateTable
+CREATE TABLE "PaymentIntentAttempt" (
+    "id" TEXT NOT NULL,
+    "paymentIntentId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "succeeded" BOOLEAN NOT NULL,
+    "failureReason" TEXT,
+    "providerResult" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentIntentAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentIntentAttempt_paymentIntentId_idx" ON "PaymentIntentAttempt"("paymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "PaymentIntentAttempt_reference_idx" ON "PaymentIntentAttempt"("reference");
+
+-- AddForeignKey
+ALTER TABLE "PaymentIntentAttempt" ADD CONSTRAINT "PaymentIntentAttempt_paymentIntentId_fkey" FOREIGN KEY ("paymentIntentId") REFERENCES "PaymentIntent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
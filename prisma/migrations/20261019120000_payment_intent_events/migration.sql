@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PaymentIntentEvent" (
+    "id" SERIAL NOT NULL,
+    "paymentIntentId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "requestId" TEXT,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentIntentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentIntentEvent_paymentIntentId_idx" ON "PaymentIntentEvent"("paymentIntentId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentIntentEvent" ADD CONSTRAINT "PaymentIntentEvent_paymentIntentId_fkey" FOREIGN KEY ("paymentIntentId") REFERENCES "PaymentIntent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
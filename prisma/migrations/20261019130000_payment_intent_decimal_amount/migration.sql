@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing float amounts are rounded to the nearest santim
+ALTER TABLE "PaymentIntent" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2) USING ROUND("amount"::numeric, 2);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "amountPolicy" JSONB;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "PaymentIntentStatus" ADD VALUE 'partially_paid' AFTER 'pending';
+
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "allowPartialPayments" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "amountReceived" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PaymentContribution" (
+    "id" TEXT NOT NULL,
+    "paymentIntentId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "receipt" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentContribution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentContribution_provider_reference_key" ON "PaymentContribution"("provider", "reference");
+
+-- CreateIndex
+CREATE INDEX "PaymentContribution_paymentIntentId_idx" ON "PaymentContribution"("paymentIntentId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentContribution" ADD CONSTRAINT "PaymentContribution_paymentIntentId_fkey" FOREIGN KEY ("paymentIntentId") REFERENCES "PaymentIntent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "ConsumedReceipt" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "merchant" TEXT,
+    "apiKeyId" TEXT,
+    "paymentIntentId" TEXT,
+    "amount" DECIMAL(14,2),
+    "consumedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConsumedReceipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsumedReceipt_provider_reference_key" ON "ConsumedReceipt"("provider", "reference");
+
+-- CreateIndex
+CREATE INDEX "ConsumedReceipt_merchant_idx" ON "ConsumedReceipt"("merchant");
+
+-- CreateIndex
+CREATE INDEX "ConsumedReceipt_paymentIntentId_idx" ON "ConsumedReceipt"("paymentIntentId");
+
+-- Backfill references already used by confirmed intents and partial payment contributions
+INSERT INTO "ConsumedReceipt" ("id", "provider", "reference", "source", "merchant", "apiKeyId", "paymentIntentId", "amount", "consumedAt")
+SELECT gen_random_uuid()::text, "paymentMethodType", upper(regexp_replace("reference", '\s', '', 'g')), 'payment_intent',
+       "merchant", "apiKeyId", "id", "amount", COALESCE("confirmedAt", "createdAt")
+FROM "PaymentIntent"
+WHERE "status" = 'succeeded' AND "reference" IS NOT NULL
+ON CONFLICT ("provider", "reference") DO NOTHING;
+
+INSERT INTO "ConsumedReceipt" ("id", "provider", "reference", "source", "merchant", "apiKeyId", "paymentIntentId", "amount", "consumedAt")
+SELECT gen_random_uuid()::text, c."provider", upper(regexp_replace(c."reference", '\s', '', 'g')), 'payment_intent',
+       i."merchant", i."apiKeyId", i."id", c."amount", c."createdAt"
+FROM "PaymentContribution" c
+JOIN "PaymentIntent" i ON i."id" = c."paymentIntentId"
+ON CONFLICT ("provider", "reference") DO NOTHING;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "confirmLockId" TEXT,
+ADD COLUMN "confirmLockedUntil" TIMESTAMP(3);
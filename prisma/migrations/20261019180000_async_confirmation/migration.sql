@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "PaymentIntentStatus" ADD VALUE 'processing' AFTER 'pending';
+
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "processingReference" TEXT;
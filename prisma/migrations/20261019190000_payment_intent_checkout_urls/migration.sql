@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "successUrl" TEXT,
+ADD COLUMN "cancelUrl" TEXT;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "PaymentLink" (
+    "id" TEXT NOT NULL,
+    "merchant" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(14,2),
+    "minAmount" DECIMAL(14,2),
+    "maxAmount" DECIMAL(14,2),
+    "paymentMethodTypes" TEXT[],
+    "expectedReceiverAccount" TEXT NOT NULL,
+    "expectedReceiverName" TEXT,
+    "successUrl" TEXT,
+    "cancelUrl" TEXT,
+    "metadata" JSONB,
+    "maxUses" INTEGER,
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "visitCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentLink_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "paymentLinkId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PaymentLink_merchant_idx" ON "PaymentLink"("merchant");
+
+-- CreateIndex
+CREATE INDEX "PaymentLink_apiKeyId_idx" ON "PaymentLink"("apiKeyId");
+
+-- CreateIndex
+CREATE INDEX "PaymentIntent_paymentLinkId_idx" ON "PaymentIntent"("paymentLinkId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentLink" ADD CONSTRAINT "PaymentLink_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentIntent" ADD CONSTRAINT "PaymentIntent_paymentLinkId_fkey" FOREIGN KEY ("paymentLinkId") REFERENCES "PaymentLink"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "Merchant" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Merchant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MerchantAccount" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MerchantAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Merchant_name_key" ON "Merchant"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MerchantAccount_merchantId_provider_accountNumber_key" ON "MerchantAccount"("merchantId", "provider", "accountNumber");
+
+-- CreateIndex
+CREATE INDEX "MerchantAccount_merchantId_provider_idx" ON "MerchantAccount"("merchantId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "MerchantAccount" ADD CONSTRAINT "MerchantAccount_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill one merchant per API key owner and attach the keys to it
+INSERT INTO "Merchant" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::text, "owner", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "owner" FROM "ApiKey") owners;
+
+ALTER TABLE "ApiKey" ADD COLUMN "merchantId" TEXT;
+
+UPDATE "ApiKey" k SET "merchantId" = m."id" FROM "Merchant" m WHERE m."name" = k."owner";
+
+ALTER TABLE "ApiKey" ALTER COLUMN "merchantId" SET NOT NULL;
+
+ALTER TABLE "ApiKey" DROP COLUMN "owner";
+
+-- CreateIndex
+CREATE INDEX "ApiKey_merchantId_idx" ON "ApiKey"("merchantId");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "PaymentIntent" ADD COLUMN "receiverAccountId" TEXT,
+ADD COLUMN "matchAnyReceiverAccount" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "PaymentIntent_receiverAccountId_idx" ON "PaymentIntent"("receiverAccountId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentIntent" ADD CONSTRAINT "PaymentIntent_receiverAccountId_fkey" FOREIGN KEY ("receiverAccountId") REFERENCES "MerchantAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "PaymentLink" ALTER COLUMN "expectedReceiverAccount" DROP NOT NULL;
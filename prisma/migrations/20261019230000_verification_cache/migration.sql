@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "VerificationCacheEntry" (
+    "key" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "raw" JSONB,
+    "final" BOOLEAN NOT NULL,
+    "storedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VerificationCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "VerificationCacheEntry_expiresAt_idx" ON "VerificationCacheEntry"("expiresAt");
@@ -10,12 +10,24 @@ import telebirrRouter from './routes/verifyTelebirrRoute';
 import adminRouter from './routes/adminRoute';
 import paymentIntentsRouter from './routes/paymentIntentsRoute';
 import webhookRouter from './routes/webhookRoute';
+import receiptsRouter from './routes/receiptsRoute';
+import checkoutRouter from './routes/checkoutRoute';
+import payRouter from './routes/payRoute';
+import paymentLinksRouter from './routes/paymentLinksRoute';
+import merchantRouter from './routes/merchantRoute';
+import verifyDocumentRouter from './routes/verifyDocumentRoute';
 import logger from './utils/logger';
 import { verifyImageHandler } from "./services/verifyImage";
 import { requestLogger, initializeStatsCache } from './middleware/requestLogger';
 import { apiKeyAuth } from './middleware/apiKeyAuth';
 import { prisma, disconnectPrisma } from './utils/prisma';
 import { WebhookService } from './services/webhookService';
+import { IntentExpiryService } from './services/intentExpiryService';
+import { ConfirmationWorker } from './services/confirmationWorker';
+import { BrowserPool } from './services/browserPool';
+import { VerificationCache } from './services/verificationCache';
+import { loadProviderSources } from './services/providers/sourceConfig';
+import { positiveIntEnv } from './utils/env';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -25,6 +37,14 @@ logger.info(`Starting server in ${process.env.NODE_ENV || 'development'} mode`);
 logger.info(`Node version: ${process.version}`);
 logger.info(`Platform: ${process.platform}`);
 
+// Validate the receipt source configuration before accepting requests
+try {
+    loadProviderSources();
+} catch (error) {
+    logger.error('Failed to load provider sources:', error);
+    process.exit(1);
+}
+
 // Initialize database connection and cache
 (async () => {
     try {
@@ -43,12 +63,46 @@ logger.info(`Platform: ${process.platform}`);
                 logger.error('Error in webhook retry job:', error);
             }
         }, 5 * 60 * 1000); // Run every 5 minutes
+
+        // Start background job for expiring stale payment intents
+        setInterval(async () => {
+            try {
+                await IntentExpiryService.expireStaleIntents();
+            } catch (error) {
+                logger.error('Error in payment intent expiry job:', error);
+            }
+        }, 60 * 1000); // Run every minute
+
+        // Start background job for deleting expired verification cache entries
+        setInterval(async () => {
+            try {
+                await VerificationCache.purgeExpired();
+            } catch (error) {
+                logger.error('Error in verification cache purge job:', error);
+            }
+        }, 60 * 60 * 1000); // Run every hour
+
+        // Requeue background confirmations interrupted by a restart, then keep
+        // watching for ones whose worker stopped
+        await ConfirmationWorker.recoverStuckIntents();
+        setInterval(async () => {
+            try {
+                await ConfirmationWorker.recoverStuckIntents();
+            } catch (error) {
+                logger.error('Error in confirmation recovery job:', error);
+            }
+        }, 60 * 1000); // Run every minute
     } catch (error) {
         logger.error('Failed to initialize database connection:', error);
         process.exit(1);
     }
 })();
 
+// Behind a load balancer, trust its X-Forwarded-For so per-client rate limits see the real client
+if (process.env.TRUST_PROXY_HOPS) {
+    app.set('trust proxy', positiveIntEnv('TRUST_PROXY_HOPS', 1));
+}
+
 app.use(cors());
 app.use(express.json());
 
@@ -58,6 +112,11 @@ app.use(requestLogger);
 // Register admin routes BEFORE API key authentication
 app.use('/admin', adminRouter);
 
+// Hosted checkout pages are authenticated by a signed token instead of an API key
+app.use('/checkout', checkoutRouter);
+// Payment link pages are public; each visitor is sent on to a hosted checkout
+app.use('/pay', payRouter);
+
 // Add API key authentication middleware (will not affect admin routes)
 app.use(apiKeyAuth as express.RequestHandler);
 
@@ -77,8 +136,12 @@ app.use(jsonErrorHandler);
 app.use('/verify-cbe', CBERouter);
 app.use('/verify-telebirr', telebirrRouter);
 app.post('/verify-image', verifyImageHandler);
+app.use('/verify-document', verifyDocumentRouter);
 app.use('/intents', paymentIntentsRouter);
+app.use('/payment-links', paymentLinksRouter);
+app.use('/merchant', merchantRouter);
 app.use('/webhooks', webhookRouter);
+app.use('/receipts', receiptsRouter);
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -94,8 +157,12 @@ app.get('/', (req: Request, res: Response) => {
             '/verify-cbe',
             '/verify-telebirr',
             '/verify-image',
+            '/verify-document',
             '/intents',
-            '/webhooks'
+            '/payment-links',
+            '/merchant',
+            '/webhooks',
+            '/receipts'
         ]
     });
 });
@@ -116,6 +183,7 @@ const gracefulShutdown = async () => {
     logger.info('Shutting down server...');
     server.close(async () => {
         logger.info('HTTP server closed');
+        await BrowserPool.shutdown();
         await disconnectPrisma();
         process.exit(0);
     });
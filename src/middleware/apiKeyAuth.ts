@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
 import { prisma } from '../utils/prisma';
 import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { MerchantService } from '../services/merchantService';
 
 // Function to generate a new API key
 export const generateApiKey = async (owner: string) => {
@@ -11,14 +12,18 @@ export const generateApiKey = async (owner: string) => {
     .replace(/[^a-zA-Z0-9]/g, '');
 
   try {
+    // Keys belong to a merchant, created on its first key
+    const merchant = await MerchantService.findOrCreate(owner);
+
     // Create API key in database
     const apiKey = await prisma.apiKey.create({
       data: {
         key,
-        owner,
+        merchantId: merchant.id,
         usageCount: 0,
         isActive: true
-      }
+      },
+      include: { merchant: true }
     });
 
     return apiKey;
@@ -32,7 +37,8 @@ export const generateApiKey = async (owner: string) => {
 export const validateApiKey = async (key: string) => {
   try {
     return await prisma.apiKey.findUnique({
-      where: { key, isActive: true }
+      where: { key, isActive: true },
+      include: { merchant: true }
     });
   } catch (error) {
     logger.error('Error validating API key:', error);
@@ -74,8 +80,9 @@ export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction
       }
     });
 
-    // Add API key info to request for later use
-    (req as any).apiKeyData = keyData;
+    // Add API key info to request for later use. owner is the merchant's name,
+    // which intents, payment links and webhook subscriptions are stored under.
+    (req as any).apiKeyData = { ...keyData, owner: keyData.merchant.name };
 
     next();
   } catch (error) {
@@ -87,7 +94,7 @@ export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction
 // Get all API keys
 export const getApiKeys = async () => {
   try {
-    return await prisma.apiKey.findMany();
+    return await prisma.apiKey.findMany({ include: { merchant: true } });
   } catch (error) {
     logger.error('Error fetching API keys:', error);
     throw error;
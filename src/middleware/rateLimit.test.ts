@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { rateLimit } from './rateLimit';
+
+const request = (ip: string) => ({ ip } as Request);
+
+const response = () => {
+  const headers: Record<string, string> = {};
+  const res = { set: (name: string, value: string) => { headers[name] = value; } } as unknown as Response;
+  return { res, headers };
+};
+
+const limiter = (max: number, limited: number[]) =>
+  rateLimit({
+    max,
+    windowMs: 60 * 1000,
+    key: req => req.ip ?? 'unknown',
+    onLimited: (_req, _res, retryAfterSeconds) => limited.push(retryAfterSeconds),
+  });
+
+test('lets requests through up to the limit and rejects the rest with Retry-After', t => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limited: number[] = [];
+  const handler = limiter(2, limited);
+  let passed = 0;
+
+  for (let i = 0; i < 2; i++) {
+    handler(request('10.0.0.1'), response().res, () => passed++);
+  }
+  now += 15 * 1000;
+  const { res, headers } = response();
+  handler(request('10.0.0.1'), res, () => passed++);
+
+  assert.equal(passed, 2);
+  assert.deepEqual(limited, [45]);
+  assert.equal(headers['Retry-After'], '45');
+});
+
+test('counts each key on its own', t => {
+  t.mock.method(Date, 'now', () => 1_000_000);
+  const limited: number[] = [];
+  const handler = limiter(1, limited);
+  let passed = 0;
+
+  handler(request('10.0.0.1'), response().res, () => passed++);
+  handler(request('10.0.0.2'), response().res, () => passed++);
+  handler(request('10.0.0.1'), response().res, () => passed++);
+
+  assert.equal(passed, 2);
+  assert.equal(limited.length, 1);
+});
+
+test('starts a new window once the current one has ended', t => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limited: number[] = [];
+  const handler = limiter(1, limited);
+  let passed = 0;
+
+  handler(request('10.0.0.1'), response().res, () => passed++);
+  handler(request('10.0.0.1'), response().res, () => passed++);
+  now += 60 * 1000;
+  handler(request('10.0.0.1'), response().res, () => passed++);
+
+  assert.equal(passed, 2);
+  assert.equal(limited.length, 1);
+});
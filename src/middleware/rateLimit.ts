@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// Finished windows are swept once this many keys are tracked, so memory stays bounded
+const SWEEP_THRESHOLD = 10000;
+
+export interface RateLimitOptions {
+  /** Requests allowed per key in each window */
+  max: number;
+  windowMs: number;
+  /** What requests are counted by, e.g. the client IP */
+  key: (req: Request) => string;
+  /** Response for a request over the limit */
+  onLimited: (req: Request, res: Response, retryAfterSeconds: number) => void;
+}
+
+/**
+ * Fixed-window request limiter. Counts are kept in memory, so each instance limits on its own.
+ */
+export const rateLimit = (options: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = options.key(req);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      if (windows.size >= SWEEP_THRESHOLD) {
+        for (const [storedKey, stored] of windows) {
+          if (stored.resetAt <= now) windows.delete(storedKey);
+        }
+      }
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      const retryAfterSeconds = Math.ceil((window.resetAt - now) / 1000);
+      res.set('Retry-After', String(retryAfterSeconds));
+      options.onLimited(req, res, retryAfterSeconds);
+      return;
+    }
+    next();
+  };
+};
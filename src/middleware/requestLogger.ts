@@ -84,6 +84,10 @@ export const initializeStatsCache = async () => {
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   const requestId = Math.random().toString(36).substring(2, 15);
+
+  // Expose the request id to handlers (e.g. for audit events) and to the client
+  (req as any).requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
   
   // Log request details
   logger.info(`[${requestId}] Incoming ${req.method} request to ${req.originalUrl}`, {
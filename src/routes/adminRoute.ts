@@ -1,6 +1,9 @@
 import { Router, Request, Response, RequestHandler, NextFunction } from 'express';
 import { generateApiKey, getApiKeys } from '../middleware/apiKeyAuth';
 import { getUsageStats } from '../middleware/requestLogger';
+import { BrowserPool } from '../services/browserPool';
+import { SourceHealthService, SourceOverride } from '../services/sourceHealthService';
+import { sendErrorResponse } from '../utils/errorHandler';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -37,7 +40,8 @@ router.post('/api-keys', checkAdminAuth as RequestHandler, async (req: Request,
             success: true,
             data: {
                 key: apiKey.key,
-                owner: apiKey.owner,
+                owner: apiKey.merchant.name,
+                merchantId: apiKey.merchantId,
                 createdAt: apiKey.createdAt
             }
         });
@@ -51,16 +55,10 @@ router.post('/api-keys', checkAdminAuth as RequestHandler, async (req: Request,
 router.get('/api-keys', checkAdminAuth as RequestHandler, async (req: Request, res: Response) => {
     try {
         const apiKeys = await getApiKeys();
-        const keyList = apiKeys.map((key: {
-            key: string;
-            owner: string;
-            createdAt: Date;
-            lastUsed: Date | null;
-            usageCount: number;
-            isActive: boolean;
-        }) => ({
+        const keyList = apiKeys.map(key => ({
             key: key.key.substring(0, 8) + '...',
-            owner: key.owner,
+            owner: key.merchant.name,
+            merchantId: key.merchantId,
             createdAt: key.createdAt,
             lastUsed: key.lastUsed,
             usageCount: key.usageCount,
@@ -88,4 +86,41 @@ router.get('/stats', checkAdminAuth as RequestHandler, async (req: Request, res:
     }
 });
 
+// Browser pool usage for the CBE fallback: pages in use, queued lookups and launch failures
+router.get('/browser-pool', checkAdminAuth as RequestHandler, (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        data: BrowserPool.metrics()
+    });
+});
+
+// Circuit breaker state, success rate and latency of each upstream receipt source
+router.get('/providers/health', checkAdminAuth as RequestHandler, (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        data: SourceHealthService.list()
+    });
+});
+
+const SOURCE_OVERRIDES: SourceOverride[] = ['auto', 'enabled', 'disabled'];
+
+// Force an upstream source on or off, or return it to its circuit breaker with "auto"
+router.patch('/providers/health/:source', checkAdminAuth as RequestHandler, (req: Request, res: Response): void => {
+    // Express 5 leaves the body undefined when the request has none
+    const { override } = req.body ?? {};
+
+    if (!SOURCE_OVERRIDES.includes(override)) {
+        res.status(400).json({ success: false, error: `Override must be one of: ${SOURCE_OVERRIDES.join(', ')}` });
+        return;
+    }
+
+    try {
+        const health = SourceHealthService.setOverride(req.params.source, override);
+        res.json({ success: true, data: health });
+    } catch (err) {
+        logger.error('Error updating upstream source override:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { Router, Request, Response } from 'express';
+import { PaymentIntent, PaymentIntentStatus } from '@prisma/client';
+import multer from 'multer';
+import logger from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { prisma } from '../utils/prisma';
+import { getProvider } from '../services/providers';
+import { PaymentIntentService } from '../services/paymentIntentService';
+import { CheckoutTokenService } from '../services/checkoutTokenService';
+import { rateLimit } from '../middleware/rateLimit';
+import { positiveIntEnv } from '../utils/env';
+import { actorFromCheckout } from '../services/intentEventService';
+import { extractReceiptReference } from '../services/vision';
+import { CHECKOUT_MESSAGES, CheckoutLanguage, resolveCheckoutLanguage } from '../views/checkoutMessages';
+import { fill, renderCheckoutNotice, renderCheckoutPage } from '../views/checkoutPage';
+
+// Confirmations a single client, and a single intent across all clients, may submit per minute
+const RATE_LIMIT_PER_IP = positiveIntEnv('CHECKOUT_CONFIRM_RATE_LIMIT_PER_IP', 10);
+const RATE_LIMIT_PER_INTENT = positiveIntEnv('CHECKOUT_CONFIRM_RATE_LIMIT_PER_INTENT', 20);
+
+// Public pages authenticated by a signed checkout token instead of an API key
+const router = Router();
+
+// Receipt screenshots are only passed to the vision model, so keep them in memory
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
+
+// Seconds between reloads while a confirmation is processing
+const PROCESSING_REFRESH_SECONDS = 5;
+
+// Counted before the upload is read, so the language comes from the query or the browser
+const sendTooManyRequests = (req: Request, res: Response) => {
+  const lang = resolveCheckoutLanguage(req, req.query.lang);
+  const t = CHECKOUT_MESSAGES[lang];
+  res.status(429).type('html').send(renderCheckoutNotice({ lang, title: t.tooManyRequestsTitle, body: t.tooManyRequestsBody }));
+};
+
+const limitPerIp = rateLimit({
+  max: RATE_LIMIT_PER_IP,
+  windowMs: 60 * 1000,
+  key: req => req.ip ?? 'unknown',
+  onLimited: sendTooManyRequests,
+});
+
+const limitPerIntent = rateLimit({
+  max: RATE_LIMIT_PER_INTENT,
+  windowMs: 60 * 1000,
+  key: req => String(req.params.intentId),
+  onLimited: sendTooManyRequests,
+});
+
+/**
+ * Load the intent a checkout token was issued for
+ * @returns The intent, or null if it does not exist or the token is invalid or expired
+ */
+const loadCheckoutIntent = async (intentId: string, token: unknown): Promise<PaymentIntent | null> => {
+  if (typeof token !== 'string' || !CheckoutTokenService.verify(token, intentId)) {
+    return null;
+  }
+  return prisma.paymentIntent.findUnique({ where: { id: intentId } });
+};
+
+const withIntentId = (url: string, intentId: string): string => {
+  const target = new URL(url);
+  target.searchParams.set('payment_intent', intentId);
+  return target.toString();
+};
+
+const sendInvalidLink = (res: Response, lang: CheckoutLanguage) => {
+  const t = CHECKOUT_MESSAGES[lang];
+  res.status(403).type('html').send(renderCheckoutNotice({ lang, title: t.invalidLinkTitle, body: t.invalidLinkBody }));
+};
+
+/**
+ * Respond with the page for the intent's current status: the checkout form while
+ * it can take a reference, or a redirect or message once it cannot
+ */
+const sendCheckout = (
+  res: Response,
+  lang: CheckoutLanguage,
+  intent: PaymentIntent,
+  token: string,
+  error: string | null = null,
+  statusCode = 200
+) => {
+  const t = CHECKOUT_MESSAGES[lang];
+
+  switch (intent.status) {
+    case PaymentIntentStatus.succeeded:
+      if (intent.successUrl) {
+        res.redirect(303, withIntentId(intent.successUrl, intent.id));
+        return;
+      }
+      res.type('html').send(renderCheckoutNotice({ lang, title: t.succeededTitle, body: t.succeededBody }));
+      return;
+    case PaymentIntentStatus.processing:
+      res.type('html').send(renderCheckoutNotice({
+        lang,
+        title: t.processingTitle,
+        body: t.processingBody,
+        refresh: {
+          seconds: PROCESSING_REFRESH_SECONDS,
+          url: `/checkout/${encodeURIComponent(intent.id)}?token=${encodeURIComponent(token)}&lang=${lang}`,
+        },
+      }));
+      return;
+    case PaymentIntentStatus.pending:
+    case PaymentIntentStatus.partially_paid:
+      res.status(statusCode).type('html').send(renderCheckoutPage({
+        lang,
+        intent,
+        token,
+        providerName: getProvider(intent.paymentMethodType)?.displayName ?? intent.paymentMethodType,
+        error,
+      }));
+      return;
+    default:
+      res.status(410).type('html').send(renderCheckoutNotice({
+        lang,
+        title: t.unavailableTitle,
+        body: t.unavailableBody,
+        ...(intent.cancelUrl && { link: { href: withIntentId(intent.cancelUrl, intent.id), label: t.continue } }),
+      }));
+  }
+};
+
+// Hosted checkout page
+router.get('/:intentId', async (req: Request, res: Response): Promise<void> => {
+  const lang = resolveCheckoutLanguage(req, req.query.lang);
+  try {
+    const intent = await loadCheckoutIntent(req.params.intentId, req.query.token);
+    if (!intent) {
+      sendInvalidLink(res, lang);
+      return;
+    }
+
+    sendCheckout(res, lang, intent, req.query.token as string);
+  } catch (error) {
+    logger.error('Error rendering checkout page:', error);
+    const t = CHECKOUT_MESSAGES[lang];
+    res.status(500).type('html').send(renderCheckoutNotice({ lang, title: t.unavailableTitle, body: t.unavailableBody }));
+  }
+});
+
+// Confirm with a typed reference or a receipt screenshot
+router.post('/:intentId/confirm', limitPerIp, limitPerIntent, upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  const lang = resolveCheckoutLanguage(req, req.body?.lang);
+  const t = CHECKOUT_MESSAGES[lang];
+  try {
+    const token = req.body?.token;
+    const intent = await loadCheckoutIntent(req.params.intentId, token);
+    if (!intent) {
+      sendInvalidLink(res, lang);
+      return;
+    }
+
+    let reference = typeof req.body?.reference === 'string' ? req.body.reference.trim() : '';
+    if (!reference && req.file) {
+      const extraction = await extractReceiptReference(req.file.buffer);
+      if (!extraction || extraction.provider.id !== intent.paymentMethodType) {
+        const providerName = getProvider(intent.paymentMethodType)?.displayName ?? intent.paymentMethodType;
+        sendCheckout(res, lang, intent, token, fill(t.imageUnreadable, { provider: providerName }), 422);
+        return;
+      }
+      reference = extraction.reference;
+    }
+    if (!reference) {
+      sendCheckout(res, lang, intent, token, t.referenceRequired, 400);
+      return;
+    }
+
+    try {
+      const confirmedIntent = await PaymentIntentService.confirm(intent, reference, actorFromCheckout(req));
+      sendCheckout(res, lang, confirmedIntent, token);
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      // Show the error on the page for the intent as it is now
+      const current = await prisma.paymentIntent.findUnique({ where: { id: intent.id } });
+      sendCheckout(res, lang, current ?? intent, token, error.message, error.statusCode);
+    }
+  } catch (error) {
+    logger.error('Error confirming checkout payment:', error);
+    res.status(500).type('html').send(renderCheckoutNotice({ lang, title: t.unavailableTitle, body: t.unavailableBody }));
+  }
+});
+
+// Leave the checkout and return to the merchant. The intent is left as it is.
+router.get('/:intentId/cancel', async (req: Request, res: Response): Promise<void> => {
+  const lang = resolveCheckoutLanguage(req, req.query.lang);
+  const t = CHECKOUT_MESSAGES[lang];
+  try {
+    const intent = await loadCheckoutIntent(req.params.intentId, req.query.token);
+    if (!intent) {
+      sendInvalidLink(res, lang);
+      return;
+    }
+
+    if (intent.cancelUrl) {
+      res.redirect(303, withIntentId(intent.cancelUrl, intent.id));
+      return;
+    }
+    res.type('html').send(renderCheckoutNotice({ lang, title: t.canceledTitle, body: t.canceledBody }));
+  } catch (error) {
+    logger.error('Error leaving checkout:', error);
+    res.status(500).type('html').send(renderCheckoutNotice({ lang, title: t.unavailableTitle, body: t.unavailableBody }));
+  }
+});
+
+export default router;
@@ -0,0 +1,164 @@
+import { Router, Request, Response } from 'express';
+import { MerchantAccount } from '@prisma/client';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { paymentMethodTypeSchema } from '../services/providers';
+import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { prisma } from '../utils/prisma';
+import { MerchantService } from '../services/merchantService';
+
+// Extend Request interface to include apiKeyData from apiKeyAuth middleware
+interface CustomRequest extends Request {
+  apiKeyData?: { id: string; key: string; owner: string; merchantId: string };
+}
+
+const router = Router();
+
+const updateMerchantSchema = z.object({
+  displayName: z.string().min(1).max(200).nullable().optional(),
+  // Receiver name score from 0.5 to 1 needed to confirm a payment; null restores the default
+  nameMatchThreshold: z.number().min(0.5).max(1).nullable().optional(),
+});
+
+const aliasesSchema = z.array(z.string().trim().min(1)).max(20);
+
+const createAccountSchema = z.object({
+  provider: paymentMethodTypeSchema,
+  // CBE account number or Telebirr phone number
+  accountNumber: z.string().trim().min(4).max(32),
+  accountName: z.string().trim().min(1),
+  aliases: aliasesSchema.optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const updateAccountSchema = z.object({
+  accountName: z.string().trim().min(1).optional(),
+  aliases: aliasesSchema.optional(),
+  // Pick another account to stop this one being the default
+  isDefault: z.literal(true).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const listAccountsQuerySchema = z.object({
+  provider: paymentMethodTypeSchema.optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+const getMerchantId = (req: CustomRequest): string => {
+  const merchantId = req.apiKeyData?.merchantId;
+  if (!merchantId) {
+    throw new AppError('API key owner not found', ErrorType.UNAUTHORIZED, 401);
+  }
+  return merchantId;
+};
+
+const findOwnedAccount = async (req: CustomRequest): Promise<MerchantAccount> => {
+  const merchantId = getMerchantId(req);
+  const account = await prisma.merchantAccount.findUnique({ where: { id: req.params.id } });
+  if (!account || account.merchantId !== merchantId) {
+    throw new AppError('Receiver account not found', ErrorType.NOT_FOUND, 404);
+  }
+  return account;
+};
+
+// Get the calling merchant's profile and active receiver accounts
+router.get('/', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const merchantId = getMerchantId(req);
+    const merchant = await prisma.merchant.findUniqueOrThrow({ where: { id: merchantId } });
+    const receiverAccounts = await MerchantService.listAccounts(merchantId);
+
+    res.json({ success: true, data: { ...merchant, receiverAccounts } });
+  } catch (error) {
+    logger.error('Error fetching merchant profile:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Update the merchant's display name and name matching threshold.
+// The name is fixed because intents and webhooks are stored under it.
+router.patch('/', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = updateMerchantSchema.parse(req.body);
+    const merchant = await prisma.merchant.update({
+      where: { id: getMerchantId(req) },
+      data: parsed,
+    });
+
+    res.json({ success: true, data: merchant });
+  } catch (error) {
+    logger.error('Error updating merchant profile:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List saved receiver accounts
+router.get('/accounts', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const query = listAccountsQuerySchema.parse(req.query);
+    const accounts = await MerchantService.listAccounts(getMerchantId(req), {
+      provider: query.provider,
+      includeInactive: query.includeInactive === 'true',
+    });
+
+    res.json({ success: true, data: accounts });
+  } catch (error) {
+    logger.error('Error listing receiver accounts:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Save a receiver account
+router.post('/accounts', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = createAccountSchema.parse(req.body);
+    const account = await MerchantService.createAccount(getMerchantId(req), parsed);
+
+    logger.info(`Saved ${account.provider} receiver account ${account.id} for ${req.apiKeyData!.owner}`);
+    res.status(201).json({ success: true, data: account });
+  } catch (error) {
+    logger.error('Error saving receiver account:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Get a saved receiver account
+router.get('/accounts/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const account = await findOwnedAccount(req);
+    res.json({ success: true, data: account });
+  } catch (error) {
+    logger.error('Error fetching receiver account:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Update a saved receiver account. The provider and number are fixed once saved.
+router.patch('/accounts/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = updateAccountSchema.parse(req.body);
+    const account = await findOwnedAccount(req);
+    const updated = await MerchantService.updateAccount(account, parsed);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    logger.error('Error updating receiver account:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Deactivate a saved receiver account. Existing intents keep the details copied from it.
+router.delete('/accounts/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const account = await findOwnedAccount(req);
+    const updated = await MerchantService.updateAccount(account, { isActive: false });
+
+    logger.info(`Deactivated receiver account ${account.id}`);
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    logger.error('Error deactivating receiver account:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,155 @@
+import express, { Router, Request, Response } from 'express';
+import { PaymentLink } from '@prisma/client';
+import logger from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { prisma } from '../utils/prisma';
+import { amountSchema } from '../utils/money';
+import { getProvider } from '../services/providers';
+import { PaymentLinkService } from '../services/paymentLinkService';
+import { CheckoutTokenService } from '../services/checkoutTokenService';
+import { actorFromPaymentLink } from '../services/intentEventService';
+import { CHECKOUT_MESSAGES, CheckoutLanguage, resolveCheckoutLanguage } from '../views/checkoutMessages';
+import { renderCheckoutNotice } from '../views/checkoutPage';
+import { renderPaymentLinkPage } from '../views/paymentLinkPage';
+import { rateLimit } from '../middleware/rateLimit';
+import { positiveIntEnv } from '../utils/env';
+
+// Payments a single client, and a single link across all clients, may start per minute
+const RATE_LIMIT_PER_IP = positiveIntEnv('PAY_LINK_RATE_LIMIT_PER_IP', 10);
+const RATE_LIMIT_PER_LINK = positiveIntEnv('PAY_LINK_RATE_LIMIT_PER_LINK', 60);
+
+// Public payment link pages. Each visitor gets their own payment intent and hosted checkout.
+const router = Router();
+
+router.use(express.urlencoded({ extended: false }));
+
+const sendTooManyRequests = (req: Request, res: Response) => {
+  const lang = resolveCheckoutLanguage(req, req.body?.lang);
+  const t = CHECKOUT_MESSAGES[lang];
+  res.status(429).type('html').send(renderCheckoutNotice({ lang, title: t.tooManyRequestsTitle, body: t.tooManyRequestsBody }));
+};
+
+const limitPerIp = rateLimit({
+  max: RATE_LIMIT_PER_IP,
+  windowMs: 60 * 1000,
+  key: req => req.ip ?? 'unknown',
+  onLimited: sendTooManyRequests,
+});
+
+const limitPerLink = rateLimit({
+  max: RATE_LIMIT_PER_LINK,
+  windowMs: 60 * 1000,
+  key: req => String(req.params.linkId),
+  onLimited: sendTooManyRequests,
+});
+
+const sendLinkUnavailable = (res: Response, lang: CheckoutLanguage, status = 410) => {
+  const t = CHECKOUT_MESSAGES[lang];
+  res.status(status).type('html').send(renderCheckoutNotice({ lang, title: t.linkUnavailableTitle, body: t.linkUnavailableBody }));
+};
+
+const sendError = (res: Response, lang: CheckoutLanguage) => {
+  const t = CHECKOUT_MESSAGES[lang];
+  res.status(500).type('html').send(renderCheckoutNotice({ lang, title: t.unavailableTitle, body: t.unavailableBody }));
+};
+
+const sendLinkPage = (
+  res: Response,
+  lang: CheckoutLanguage,
+  link: PaymentLink,
+  error: string | null = null,
+  values: { amount?: string; paymentMethodType?: string } = {},
+  statusCode = 200
+) => {
+  const methods = link.paymentMethodTypes.map(id => ({ id, name: getProvider(id)?.displayName ?? id }));
+  res.status(statusCode).type('html').send(renderPaymentLinkPage({ lang, link, methods, error, values }));
+};
+
+/**
+ * Create the visitor's payment intent and send them to its hosted checkout
+ */
+const redirectToCheckout = async (
+  req: Request,
+  res: Response,
+  lang: CheckoutLanguage,
+  link: PaymentLink,
+  selection: { paymentMethodType: string; amount?: string }
+) => {
+  const parsedAmount = selection.amount ? amountSchema.safeParse(selection.amount) : undefined;
+  if (parsedAmount && !parsedAmount.success) {
+    sendLinkPage(res, lang, link, parsedAmount.error.issues[0].message, selection, 400);
+    return;
+  }
+
+  // Without a signing secret the visitor could never reach checkout, so no intent is created
+  if (!CheckoutTokenService.isConfigured()) {
+    logger.error(`Cannot start payment for link ${link.id}: hosted checkout is not configured`);
+    sendError(res, lang);
+    return;
+  }
+
+  try {
+    const intent = await PaymentLinkService.createIntent(
+      link,
+      { paymentMethodType: selection.paymentMethodType, amount: parsedAmount?.data },
+      actorFromPaymentLink(req, link.id)
+    );
+    const { path } = CheckoutTokenService.createLink(intent.id, { lang });
+    res.redirect(303, path);
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      throw error;
+    }
+    if (error.code === 'payment_link_unavailable') {
+      sendLinkUnavailable(res, lang);
+      return;
+    }
+    sendLinkPage(res, lang, link, error.message, selection, error.statusCode);
+  }
+};
+
+// Payment link page. Only the form's POST creates an intent, so link previews and refreshes do not.
+router.get('/:linkId', async (req: Request, res: Response): Promise<void> => {
+  const lang = resolveCheckoutLanguage(req, req.query.lang);
+  try {
+    const link = await prisma.paymentLink.findUnique({ where: { id: req.params.linkId } });
+    if (!link) {
+      sendLinkUnavailable(res, lang, 404);
+      return;
+    }
+
+    await PaymentLinkService.recordVisit(link.id);
+
+    if (PaymentLinkService.unavailableReason(link, await PaymentLinkService.statsFor(link))) {
+      sendLinkUnavailable(res, lang);
+      return;
+    }
+
+    sendLinkPage(res, lang, link);
+  } catch (error) {
+    logger.error('Error rendering payment link page:', error);
+    sendError(res, lang);
+  }
+});
+
+// Create a payment intent with the visitor's amount and payment method
+router.post('/:linkId', limitPerIp, limitPerLink, async (req: Request, res: Response): Promise<void> => {
+  const lang = resolveCheckoutLanguage(req, req.body?.lang);
+  try {
+    const link = await prisma.paymentLink.findUnique({ where: { id: req.params.linkId } });
+    if (!link) {
+      sendLinkUnavailable(res, lang, 404);
+      return;
+    }
+
+    const paymentMethodType = typeof req.body?.paymentMethodType === 'string' ? req.body.paymentMethodType : '';
+    const amount = typeof req.body?.amount === 'string' && req.body.amount.trim() ? req.body.amount.trim() : undefined;
+
+    await redirectToCheckout(req, res, lang, link, { paymentMethodType, amount });
+  } catch (error) {
+    logger.error('Error creating payment from link:', error);
+    sendError(res, lang);
+  }
+});
+
+export default router;
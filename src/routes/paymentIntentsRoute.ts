@@ -1,13 +1,22 @@
 import { Router, Request, Response, RequestHandler } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PaymentIntent, PaymentIntentStatus, Prisma } from '@prisma/client';
 import { z } from 'zod';
-import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger';
-import { verifyCBE, VerifyResult } from '../services/verifyCBE';
-import { verifyTelebirr, TelebirrReceipt } from '../services/verifyTelebirr';
+import { getProvider, paymentMethodTypeSchema } from '../services/providers';
 import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
 import { prisma } from '../utils/prisma';
 import { WebhookService } from '../services/webhookService';
+import { PaymentIntentService, serializeIntent } from '../services/paymentIntentService';
+import { assertIntentPayable, INTENT_TRANSITIONS, isIntentStatus, transitionIntent } from '../services/intentStateMachine';
+import { IntentEventService, actorFromRequest } from '../services/intentEventService';
+import { amountSchema, positiveAmountSchema, serializeAmount } from '../utils/money';
+import { amountPolicySchema } from '../services/amountMatching';
+import { ConfirmationWorker } from '../services/confirmationWorker';
+import { IntentStream } from '../services/intentStream';
+import { CheckoutTokenService } from '../services/checkoutTokenService';
+import { getPublicBaseUrl } from '../utils/publicUrl';
+import { CHECKOUT_LANGUAGES } from '../views/checkoutMessages';
+import { IntentQrService, QR_CONTENTS, QR_FORMATS } from '../services/intentQrService';
 
 // Extend Request interface to include apiKeyData from apiKeyAuth middleware
 interface CustomRequest extends Request {
@@ -15,18 +24,83 @@ interface CustomRequest extends Request {
 }
 
 const router = Router();
-const createIntentSchema = z.object({
-  amount: z.number().positive(),
-  merchant: z.string().min(1),
-  paymentMethodType: z.enum(['CBE', 'Telebirr']),
-  metadata: z.record(z.string(), z.string()).optional(),
-  idempotencyKey: z.string().uuid().optional(),
-  expectedReceiverAccount: z.string().min(1),
-  expectedReceiverName: z.string().min(1),
-});
+const createIntentSchema = z
+  .object({
+    amount: positiveAmountSchema,
+    merchant: z.string().min(1),
+    paymentMethodType: paymentMethodTypeSchema,
+    metadata: z.record(z.string(), z.string()).optional(),
+    idempotencyKey: z.string().uuid().optional(),
+    // A saved account, or raw account details; with neither the merchant's default account is used
+    receiverAccountId: z.string().uuid().optional(),
+    expectedReceiverAccount: z.string().min(1).optional(),
+    expectedReceiverName: z.string().min(1).optional(),
+    matchAnyReceiverAccount: z.boolean().optional(),
+    maxAttempts: z.number().int().min(1).max(10).optional(),
+    amountPolicy: amountPolicySchema.optional(),
+    allowPartialPayments: z.boolean().optional(),
+    // Where the hosted checkout sends the customer afterwards
+    successUrl: z.string().url().optional(),
+    cancelUrl: z.string().url().optional(),
+  })
+  .refine(intent => !(intent.receiverAccountId && (intent.expectedReceiverAccount || intent.expectedReceiverName)), {
+    message: 'Give either receiverAccountId or expectedReceiverAccount and expectedReceiverName, not both',
+    path: ['receiverAccountId'],
+  })
+  .refine(intent => Boolean(intent.expectedReceiverAccount) === Boolean(intent.expectedReceiverName), {
+    message: 'expectedReceiverAccount and expectedReceiverName must be given together',
+    path: ['expectedReceiverName'],
+  });
+
+const listIntentsQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().uuid().optional(),
+    status: z.string().optional(), // comma-separated list
+    paymentMethodType: z.string().optional(),
+    amountMin: amountSchema.optional(),
+    amountMax: amountSchema.optional(),
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    confirmedFrom: z.coerce.date().optional(),
+    confirmedTo: z.coerce.date().optional(),
+    reference: z.string().min(1).optional(),
+    metadataKey: z.string().min(1).optional(),
+    metadataValue: z.string().optional(),
+  })
+  .refine(query => query.metadataValue === undefined || query.metadataKey !== undefined, {
+    message: 'metadataKey is required when filtering by metadataValue',
+    path: ['metadataKey'],
+  });
 
 const confirmIntentSchema = z.object({
   reference: z.string().min(1),
+  // Return 202 immediately and verify in the background
+  async: z.boolean().optional(),
+});
+
+// Interval between keep-alive comments on status streams
+const STREAM_HEARTBEAT_MS = 15 * 1000;
+
+const updateIntentSchema = z.object({
+  // Keys set to an empty string are removed
+  metadata: z.record(z.string(), z.string()),
+});
+
+const cancelIntentSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+const checkoutSessionSchema = z.object({
+  lang: z.enum(CHECKOUT_LANGUAGES).optional(),
+  ttlMinutes: z.number().int().min(1).max(24 * 60).optional(),
+});
+
+const qrQuerySchema = z.object({
+  format: z.enum(QR_FORMATS).default('png'),
+  content: z.enum(QR_CONTENTS).optional(),
+  size: z.coerce.number().int().min(128).max(1024).default(320),
+  lang: z.enum(CHECKOUT_LANGUAGES).optional(),
 });
 
 const validateIntentOwner = (req: CustomRequest, merchant: string) => {
@@ -43,55 +117,89 @@ const validateIntentOwner = (req: CustomRequest, merchant: string) => {
 router.post('/', async (req: CustomRequest, res: Response): Promise<void> => {
   try {
     const parsed = createIntentSchema.parse(req.body);
-    const { amount, merchant, paymentMethodType, metadata, idempotencyKey, expectedReceiverAccount, expectedReceiverName } = parsed;
 
-    validateIntentOwner(req, merchant);
+    validateIntentOwner(req, parsed.merchant);
 
-    if (idempotencyKey) {
-      const existing = await prisma.paymentIntent.findFirst({
-        where: { idempotencyKey },
-      });
-      if (existing) {
-        logger.info(`Returning existing intent for idempotencyKey: ${idempotencyKey}`);
-        res.status(200).json({ success: true, data: existing });
-        return;
+    const { intent, created } = await PaymentIntentService.create(
+      { ...parsed, apiKeyId: req.apiKeyData!.id },
+      actorFromRequest(req)
+    );
+
+    if (!created) {
+      res.status(200).json({ success: true, data: serializeIntent(intent) });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: serializeIntent(intent) });
+  } catch (error) {
+    logger.error('Error creating payment intent:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List Payment Intents for the calling merchant
+router.get('/', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const query = listIntentsQuerySchema.parse(req.query);
+
+    const merchant = req.apiKeyData?.owner;
+    if (!merchant) {
+      throw new AppError('API key owner not found', ErrorType.UNAUTHORIZED, 401);
+    }
+
+    const where: Prisma.PaymentIntentWhereInput = { merchant };
+
+    if (query.status) {
+      const statuses = query.status.split(',').map(status => status.trim()).filter(Boolean);
+      const invalid = statuses.filter(status => !isIntentStatus(status));
+      if (invalid.length > 0) {
+        throw new AppError(`Invalid status filter: ${invalid.join(', ')}`, ErrorType.VALIDATION, 400);
       }
+      where.status = { in: statuses as PaymentIntentStatus[] };
+    }
+    if (query.paymentMethodType) {
+      where.paymentMethodType = getProvider(query.paymentMethodType)?.id ?? query.paymentMethodType;
+    }
+    if (query.amountMin !== undefined || query.amountMax !== undefined) {
+      where.amount = { gte: query.amountMin, lte: query.amountMax };
+    }
+    if (query.createdFrom || query.createdTo) {
+      where.createdAt = { gte: query.createdFrom, lte: query.createdTo };
+    }
+    if (query.confirmedFrom || query.confirmedTo) {
+      where.confirmedAt = { gte: query.confirmedFrom, lte: query.confirmedTo };
+    }
+    if (query.reference) {
+      where.reference = query.reference;
+    }
+    if (query.metadataKey) {
+      where.metadata = query.metadataValue !== undefined
+        ? { path: [query.metadataKey], equals: query.metadataValue }
+        : { path: [query.metadataKey], not: Prisma.AnyNull };
     }
 
-    const intent = await prisma.paymentIntent.create({
-      data: {
-        id: uuidv4(),
-        amount,
-        merchant,
-        paymentMethodType,
-        metadata: metadata || {},
-        status: 'pending',
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        idempotencyKey: idempotencyKey || uuidv4(),
-        apiKeyId: req.apiKeyData!.id,
-        expectedReceiverAccount,
-        expectedReceiverName,
-      },
+    // Fetch one extra row to know whether another page exists
+    const intents = await prisma.paymentIntent.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
     });
 
-    logger.info(`Created payment intent ${intent.id} for merchant ${merchant}`);
-    
-    // Send webhook for payment intent creation
-    WebhookService.sendWebhookToMerchant(merchant, 'payment_intent.created', {
-      id: intent.id,
-      amount: intent.amount,
-      merchant: intent.merchant,
-      paymentMethodType: intent.paymentMethodType,
-      status: intent.status,
-      expiresAt: intent.expiresAt,
-      createdAt: intent.createdAt,
-    }).catch(error => {
-      logger.error('Failed to send webhook for payment intent creation', error);
-    });
+    const hasMore = intents.length > query.limit;
+    const page = hasMore ? intents.slice(0, query.limit) : intents;
 
-    res.status(201).json({ success: true, data: intent });
+    res.json({
+      success: true,
+      data: page.map(serializeIntent),
+      pagination: {
+        limit: query.limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      },
+    });
   } catch (error) {
-    logger.error('Error creating payment intent:', error);
+    logger.error('Error listing payment intents:', error);
     sendErrorResponse(res, error);
   }
 });
@@ -108,18 +216,17 @@ router.get('/:id', async (req: CustomRequest, res: Response): Promise<void> => {
 
     validateIntentOwner(req, intent.merchant);
 
-    res.json({ success: true, data: intent });
+    res.json({ success: true, data: serializeIntent(intent) });
   } catch (error) {
     logger.error('Error fetching payment intent:', error);
     sendErrorResponse(res, error);
   }
 });
 
-// Confirm Payment Intent
-router.post('/:id/confirm', async (req: CustomRequest, res: Response): Promise<void> => {
+// Update Payment Intent metadata
+router.patch('/:id', async (req: CustomRequest, res: Response): Promise<void> => {
   try {
-    const parsed = confirmIntentSchema.parse(req.body);
-    const { reference } = parsed;
+    const { metadata } = updateIntentSchema.parse(req.body);
 
     const intent = await prisma.paymentIntent.findUnique({
       where: { id: req.params.id },
@@ -130,170 +237,314 @@ router.post('/:id/confirm', async (req: CustomRequest, res: Response): Promise<v
 
     validateIntentOwner(req, intent.merchant);
 
-    if (intent.status !== 'pending') {
-      throw new AppError('Intent is not in pending state', ErrorType.VALIDATION, 400);
+    const previousMetadata = (intent.metadata as Record<string, string> | null) || {};
+    const mergedMetadata: Record<string, string> = { ...previousMetadata };
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === '') {
+        delete mergedMetadata[key];
+      } else {
+        mergedMetadata[key] = value;
+      }
     }
-    if (intent.expiresAt < new Date()) {
-      await prisma.paymentIntent.update({
+
+    const updatedIntent = await prisma.$transaction(async tx => {
+      const updated = await tx.paymentIntent.update({
         where: { id: intent.id },
-        data: { status: 'expired' },
+        data: { metadata: mergedMetadata },
       });
-      throw new AppError('Payment intent has expired', ErrorType.VALIDATION, 400);
-    }
+      await IntentEventService.record(tx, intent.id, 'metadata_updated', actorFromRequest(req), {
+        previous: previousMetadata,
+        current: mergedMetadata,
+      });
+      return updated;
+    });
 
-    // Check if reference has already been used
-    const existingConfirmedIntent = await prisma.paymentIntent.findFirst({
-      where: {
-        reference: reference,
-        status: { in: ['succeeded', 'failed'] },
-      },
+    res.json({ success: true, data: serializeIntent(updatedIntent) });
+  } catch (error) {
+    logger.error('Error updating payment intent:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Confirm Payment Intent
+router.post('/:id/confirm', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = confirmIntentSchema.parse(req.body);
+    const { reference, async: runAsync } = parsed;
+
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
     });
-    if (existingConfirmedIntent) {
-      throw new AppError('Reference has already been used for another payment intent', ErrorType.VALIDATION, 400);
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    let verificationResult: VerifyResult | TelebirrReceipt | null;
-    if (intent.paymentMethodType === 'CBE') {
-      // For CBE, use the expected receiver account (suffix) to query
-      verificationResult = await verifyCBE(reference, intent.expectedReceiverAccount.slice(-8));
-    } else if (intent.paymentMethodType === 'Telebirr') {
-      verificationResult = await verifyTelebirr(reference);
-    } else {
-      throw new AppError('Unsupported payment method', ErrorType.VALIDATION, 400);
+    validateIntentOwner(req, intent.merchant);
+
+    if (runAsync) {
+      const processingIntent = await ConfirmationWorker.submit(intent, reference, actorFromRequest(req));
+      res.status(202).json({ success: true, data: serializeIntent(processingIntent) });
+      return;
     }
 
-    if (!verificationResult) {
-      throw new AppError('Verification failed', ErrorType.VALIDATION, 400);
+    const updatedIntent = await PaymentIntentService.confirm(intent, reference, actorFromRequest(req));
+
+    res.json({ success: true, data: serializeIntent(updatedIntent) });
+  } catch (error) {
+    logger.error('Error confirming payment intent:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Stream status updates for a Payment Intent as Server-Sent Events
+router.get('/:id/stream', async (req: CustomRequest, res: Response): Promise<void> => {
+  // Subscribe before reading so an update published in between is not lost;
+  // updates are held back until the current state has been sent
+  const pending: PaymentIntent[] = [];
+  let onUpdate = (updated: PaymentIntent) => {
+    pending.push(updated);
+  };
+  const unsubscribe = IntentStream.subscribe(req.params.id, updated => onUpdate(updated));
+
+  try {
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    // Verify merchant identity and payment details
-    let verificationPassed = false;
-    let verificationError = '';
+    validateIntentOwner(req, intent.merchant);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
 
-    if (intent.paymentMethodType === 'CBE') {
-      const cbeResult = verificationResult as VerifyResult;
-      if (!cbeResult.success) {
-        verificationError = 'CBE verification failed';
-      } else {
-        // Verify receiver name and account
-        const receiverNameMatch = cbeResult.receiver?.toLowerCase() === intent.expectedReceiverName?.toLowerCase();
-        const receiverAccountMatch = cbeResult.receiverAccount?.endsWith(intent.expectedReceiverAccount.slice(-4));
-        
-        if (!receiverNameMatch || !receiverAccountMatch) {
-          verificationError = 'Receiver verification failed - name or account mismatch';
-          console.log(cbeResult.receiver, intent.expectedReceiverName, receiverNameMatch);
-          console.log(cbeResult.receiverAccount, intent.expectedReceiverAccount, receiverAccountMatch);
-        } else {
-          verificationPassed = true;
-        }
+    const isFinal = (status: PaymentIntentStatus) => INTENT_TRANSITIONS[status].length === 0;
+    const send = (current: PaymentIntent) => {
+      res.write(`event: status\ndata: ${JSON.stringify(serializeIntent(current))}\n\n`);
+    };
+
+    send(intent);
+    if (isFinal(intent.status)) {
+      unsubscribe();
+      res.end();
+      return;
+    }
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    onUpdate = updated => {
+      if (res.writableEnded) {
+        return;
       }
-    } else if (intent.paymentMethodType === 'Telebirr') {
-      const telebirrResult = verificationResult as TelebirrReceipt;
-      if (telebirrResult.transactionStatus.toLowerCase() !== 'completed') {
-        verificationError = 'Telebirr transaction not completed';
-      } else {
-        // Verify receiver name and last 4 digits of account
-        const receiverNameMatch = telebirrResult.creditedPartyName.toLowerCase() === intent.expectedReceiverName?.toLowerCase();
-        const receiverAccountMatch = telebirrResult.creditedPartyAccountNo.endsWith(intent.expectedReceiverAccount.slice(-4));
-        
-        if (!receiverNameMatch || !receiverAccountMatch) {
-          verificationError = 'Receiver verification failed - name or account mismatch';
-        } else {
-          verificationPassed = true;
-        }
+      send(updated);
+      if (isFinal(updated.status)) {
+        close();
       }
+    };
+    req.on('close', close);
+
+    // Replay updates published while the intent was being read; at worst a state is sent twice
+    pending.forEach(onUpdate);
+  } catch (error) {
+    unsubscribe();
+    logger.error('Error streaming payment intent:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List confirmation attempts for a Payment Intent
+router.get('/:id/attempts', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    if (!verificationPassed) {
-      const failedIntent = await prisma.paymentIntent.update({
-        where: { id: intent.id },
-        data: { 
-          status: 'failed', 
-          verificationDetails: { error: verificationError } 
-        },
-      });
-      
-      // Send webhook for payment intent failure
-      WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.failed', {
-        id: failedIntent.id,
-        amount: failedIntent.amount,
-        merchant: failedIntent.merchant,
-        paymentMethodType: failedIntent.paymentMethodType,
-        status: failedIntent.status,
-        error: verificationError,
-        verificationDetails: failedIntent.verificationDetails,
-      }).catch(error => {
-        logger.error('Failed to send webhook for payment intent failure', error);
-      });
-      
-      throw new AppError(verificationError, ErrorType.VALIDATION, 400);
+    validateIntentOwner(req, intent.merchant);
+
+    const attempts = await prisma.paymentIntentAttempt.findMany({
+      where: { paymentIntentId: intent.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: attempts,
+      attemptCount: intent.attemptCount,
+      maxAttempts: intent.maxAttempts,
+    });
+  } catch (error) {
+    logger.error('Error fetching payment intent attempts:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List verified contributions for a partial-payment Payment Intent
+router.get('/:id/contributions', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    // Verify amount matches
-    let verifiedAmount: number;
-    if (intent.paymentMethodType === 'CBE') {
-      const cbeResult = verificationResult as VerifyResult;
-      verifiedAmount = cbeResult.amount || 0;
-    } else {
-      const telebirrResult = verificationResult as TelebirrReceipt;
-      // Use totalPaidAmount for Telebirr (what customer actually paid)
-      verifiedAmount = parseFloat(telebirrResult.totalPaidAmount.replace(/[^0-9.]/g, ''));
+    validateIntentOwner(req, intent.merchant);
+
+    const contributions = await prisma.paymentContribution.findMany({
+      where: { paymentIntentId: intent.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const received = serializeAmount(intent.amountReceived);
+    res.json({
+      success: true,
+      data: contributions.map(contribution => ({
+        ...contribution,
+        ...serializeAmount(contribution.amount),
+      })),
+      amountReceived: received.amount,
+      amountReceivedMinor: received.amountMinor,
+      ...serializeAmount(intent.amount),
+    });
+  } catch (error) {
+    logger.error('Error fetching payment intent contributions:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List audit events for a Payment Intent
+router.get('/:id/events', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    if (verifiedAmount !== intent.amount) {
-      const failedIntent = await prisma.paymentIntent.update({
-        where: { id: intent.id },
-        data: { 
-          status: 'failed', 
-          verificationDetails: { error: `Amount mismatch: expected ${intent.amount}, got ${verifiedAmount}` } 
-        },
-      });
-      
-      // Send webhook for payment intent failure
-      WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.failed', {
-        id: failedIntent.id,
-        amount: failedIntent.amount,
-        merchant: failedIntent.merchant,
-        paymentMethodType: failedIntent.paymentMethodType,
-        status: failedIntent.status,
-        error: `Amount mismatch: expected ${intent.amount}, got ${verifiedAmount}`,
-        verificationDetails: failedIntent.verificationDetails,
-      }).catch(error => {
-        logger.error('Failed to send webhook for payment intent failure', error);
-      });
-      
-      throw new AppError(`Verified amount (${verifiedAmount}) does not match intent amount (${intent.amount})`, ErrorType.VALIDATION, 400);
+    validateIntentOwner(req, intent.merchant);
+
+    const events = await IntentEventService.list(intent.id);
+
+    res.json({ success: true, data: events });
+  } catch (error) {
+    logger.error('Error fetching payment intent events:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Create a hosted checkout link for a Payment Intent
+router.post('/:id/checkout-session', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const { lang, ttlMinutes } = checkoutSessionSchema.parse(req.body ?? {});
+
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
     }
 
-    const updatedIntent = await prisma.paymentIntent.update({
-      where: { id: intent.id },
-      data: {
-        status: 'succeeded',
-        reference: reference,
-        verificationDetails: JSON.stringify(verificationResult),
-        confirmedAt: new Date(),
-      },
+    validateIntentOwner(req, intent.merchant);
+
+    assertIntentPayable(intent);
+
+    const { path, token, expiresAt } = CheckoutTokenService.createLink(intent.id, { ttlMinutes, lang });
+
+    res.status(201).json({ success: true, data: { url: `${getPublicBaseUrl(req)}${path}`, token, expiresAt } });
+  } catch (error) {
+    logger.error('Error creating checkout session:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// QR code with a hosted checkout link, or the receiver and amount, for customers paying at a counter
+router.get('/:id/qr', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const { format, content, size, lang } = qrQuerySchema.parse(req.query);
+
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
     });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
+    }
+
+    validateIntentOwner(req, intent.merchant);
 
-    logger.info(`Confirmed payment intent ${intent.id} with status succeeded`);
-    
-    // Send webhook for payment intent confirmation
-    WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.confirmed', {
-      id: updatedIntent.id,
-      amount: updatedIntent.amount,
-      merchant: updatedIntent.merchant,
-      paymentMethodType: updatedIntent.paymentMethodType,
-      status: updatedIntent.status,
-      reference: updatedIntent.reference,
-      confirmedAt: updatedIntent.confirmedAt,
-      verificationDetails: updatedIntent.verificationDetails,
+    const { body, contentType } = await IntentQrService.render(intent, {
+      format,
+      content,
+      size,
+      lang,
+      baseUrl: getPublicBaseUrl(req),
+    });
+
+    // The embedded checkout link is a credential for this intent
+    res.set('Cache-Control', 'no-store');
+    res.type(contentType).send(body);
+  } catch (error) {
+    logger.error('Error generating payment intent QR code:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Cancel Payment Intent
+router.post('/:id/cancel', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const { reason } = cancelIntentSchema.parse(req.body ?? {});
+
+    const intent = await prisma.paymentIntent.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!intent) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
+    }
+
+    validateIntentOwner(req, intent.merchant);
+
+    const canceledIntent = await prisma.$transaction(async tx => {
+      const updated = await transitionIntent(tx, intent, PaymentIntentStatus.canceled, {
+        canceledAt: new Date(),
+        cancellationReason: reason,
+      });
+      await IntentEventService.record(tx, intent.id, 'canceled', actorFromRequest(req), {
+        previousStatus: intent.status,
+        reason: reason ?? null,
+      });
+      return updated;
+    });
+
+    logger.info(`Canceled payment intent ${intent.id}`);
+    IntentStream.publish(canceledIntent);
+
+    // Send webhook for payment intent cancellation
+    WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.canceled', {
+      id: canceledIntent.id,
+      ...serializeAmount(canceledIntent.amount),
+      merchant: canceledIntent.merchant,
+      paymentMethodType: canceledIntent.paymentMethodType,
+      status: canceledIntent.status,
+      canceledAt: canceledIntent.canceledAt,
+      cancellationReason: canceledIntent.cancellationReason,
     }).catch(error => {
-      logger.error('Failed to send webhook for payment intent confirmation', error);
+      logger.error('Failed to send webhook for payment intent cancellation', error);
     });
 
-    res.json({ success: true, data: updatedIntent });
+    res.json({ success: true, data: serializeIntent(canceledIntent) });
   } catch (error) {
-    logger.error('Error confirming payment intent:', error);
+    logger.error('Error canceling payment intent:', error);
     sendErrorResponse(res, error);
   }
 });
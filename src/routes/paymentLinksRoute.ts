@@ -0,0 +1,227 @@
+import { Router, Request, Response } from 'express';
+import { PaymentLink, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { paymentMethodTypeSchema } from '../services/providers';
+import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { prisma } from '../utils/prisma';
+import { PaymentLinkService, serializePaymentLink } from '../services/paymentLinkService';
+import { MerchantService } from '../services/merchantService';
+import { CheckoutTokenService } from '../services/checkoutTokenService';
+import { positiveAmountSchema } from '../utils/money';
+import { getPublicBaseUrl } from '../utils/publicUrl';
+
+// Extend Request interface to include apiKeyData from apiKeyAuth middleware
+interface CustomRequest extends Request {
+  apiKeyData?: { id: string; key: string; owner: string };
+}
+
+const router = Router();
+
+const createPaymentLinkSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    description: z.string().max(1000).optional(),
+    // Fixed amount; omit to let the customer enter one between minAmount and maxAmount
+    amount: positiveAmountSchema.optional(),
+    minAmount: positiveAmountSchema.optional(),
+    maxAmount: positiveAmountSchema.optional(),
+    paymentMethodTypes: z.array(paymentMethodTypeSchema).min(1),
+    // Omit to pay each intent into the merchant's default account for the chosen method
+    expectedReceiverAccount: z.string().min(1).optional(),
+    expectedReceiverName: z.string().min(1).optional(),
+    successUrl: z.string().url().optional(),
+    cancelUrl: z.string().url().optional(),
+    metadata: z.record(z.string(), z.string()).optional(),
+    maxUses: z.number().int().min(1).optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine(link => link.amount === undefined || (link.minAmount === undefined && link.maxAmount === undefined), {
+    message: 'minAmount and maxAmount only apply to links without a fixed amount',
+    path: ['amount'],
+  })
+  .refine(link => !link.minAmount || !link.maxAmount || link.minAmount.lessThanOrEqualTo(link.maxAmount), {
+    message: 'minAmount must not be greater than maxAmount',
+    path: ['minAmount'],
+  })
+  .refine(link => Boolean(link.expectedReceiverAccount) === Boolean(link.expectedReceiverName), {
+    message: 'expectedReceiverAccount and expectedReceiverName must be given together',
+    path: ['expectedReceiverName'],
+  })
+  // An account number belongs to one provider; links with several methods use each one's default account
+  .refine(link => !link.expectedReceiverAccount || link.paymentMethodTypes.length === 1, {
+    message: 'expectedReceiverAccount can only be given for a link with a single payment method',
+    path: ['expectedReceiverAccount'],
+  });
+
+const updatePaymentLinkSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  successUrl: z.string().url().nullable().optional(),
+  cancelUrl: z.string().url().nullable().optional(),
+  metadata: z.record(z.string(), z.string()).nullable().optional(),
+});
+
+const listPaymentLinksQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().uuid().optional(),
+  active: z.enum(['true', 'false']).optional(),
+});
+
+const getMerchant = (req: CustomRequest): string => {
+  const merchant = req.apiKeyData?.owner;
+  if (!merchant) {
+    throw new AppError('API key owner not found', ErrorType.UNAUTHORIZED, 401);
+  }
+  return merchant;
+};
+
+const findOwnedLink = async (req: CustomRequest): Promise<PaymentLink> => {
+  const merchant = getMerchant(req);
+  const link = await prisma.paymentLink.findUnique({ where: { id: req.params.id } });
+  if (!link) {
+    throw new AppError('Payment link not found', ErrorType.NOT_FOUND, 404);
+  }
+  if (link.merchant !== merchant) {
+    throw new AppError('API key does not match merchant', ErrorType.FORBIDDEN, 403);
+  }
+  return link;
+};
+
+const respondWithLink = async (req: CustomRequest, res: Response, link: PaymentLink, status = 200) => {
+  const stats = await PaymentLinkService.statsFor(link);
+  res.status(status).json({ success: true, data: serializePaymentLink(link, stats, getPublicBaseUrl(req)) });
+};
+
+// Create Payment Link
+router.post('/', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const { metadata, ...parsed } = createPaymentLinkSchema.parse(req.body);
+    const merchant = getMerchant(req);
+
+    // Visitors are sent to hosted checkout, which needs signed links
+    if (!CheckoutTokenService.isConfigured()) {
+      throw new AppError('Hosted checkout is not configured', ErrorType.INTERNAL, 503, undefined, 'checkout_not_configured');
+    }
+
+    if (!parsed.expectedReceiverAccount) {
+      const missing = await MerchantService.providersWithoutDefault(merchant, parsed.paymentMethodTypes);
+      if (missing.length > 0) {
+        throw new AppError(
+          `No default receiver account is saved for: ${missing.join(', ')}`,
+          ErrorType.VALIDATION,
+          400,
+          { providers: missing },
+          'receiver_account_required'
+        );
+      }
+    }
+
+    const link = await prisma.paymentLink.create({
+      data: {
+        ...parsed,
+        metadata: metadata ?? Prisma.DbNull,
+        merchant,
+        apiKeyId: req.apiKeyData!.id,
+      },
+    });
+
+    logger.info(`Created payment link ${link.id} for ${merchant}`);
+    await respondWithLink(req, res, link, 201);
+  } catch (error) {
+    logger.error('Error creating payment link:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// List Payment Links for the calling merchant
+router.get('/', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const query = listPaymentLinksQuerySchema.parse(req.query);
+    const merchant = getMerchant(req);
+
+    // Fetch one extra row to know whether another page exists
+    const links = await prisma.paymentLink.findMany({
+      where: {
+        merchant,
+        ...(query.active && { isActive: query.active === 'true' }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = links.length > query.limit;
+    const page = hasMore ? links.slice(0, query.limit) : links;
+    const stats = await PaymentLinkService.stats(page);
+    const baseUrl = getPublicBaseUrl(req);
+
+    res.json({
+      success: true,
+      data: page.map(link => serializePaymentLink(link, stats.get(link.id)!, baseUrl)),
+      pagination: {
+        limit: query.limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      },
+    });
+  } catch (error) {
+    logger.error('Error listing payment links:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Get Payment Link
+router.get('/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const link = await findOwnedLink(req);
+    await respondWithLink(req, res, link);
+  } catch (error) {
+    logger.error('Error fetching payment link:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Update Payment Link. Amounts, methods and the receiver are fixed once created.
+router.patch('/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const { metadata, ...parsed } = updatePaymentLinkSchema.parse(req.body);
+    const link = await findOwnedLink(req);
+
+    const updated = await prisma.paymentLink.update({
+      where: { id: link.id },
+      data: {
+        ...parsed,
+        ...(metadata !== undefined && { metadata: metadata ?? Prisma.DbNull }),
+      },
+    });
+
+    await respondWithLink(req, res, updated);
+  } catch (error) {
+    logger.error('Error updating payment link:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+// Deactivate Payment Link. Intents already created from it are not affected.
+router.delete('/:id', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const link = await findOwnedLink(req);
+
+    const updated = await prisma.paymentLink.update({
+      where: { id: link.id },
+      data: { isActive: false },
+    });
+
+    logger.info(`Deactivated payment link ${link.id}`);
+    await respondWithLink(req, res, updated);
+  } catch (error) {
+    logger.error('Error deactivating payment link:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import logger from '../utils/logger';
+import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { getProvider, listProviderIds } from '../services/providers';
+import { ReceiptLedgerService, normalizeReference } from '../services/receiptLedgerService';
+import { serializeAmount } from '../utils/money';
+
+// Extend Request interface to include apiKeyData from apiKeyAuth middleware
+interface CustomRequest extends Request {
+  apiKeyData?: { id: string; key: string; owner: string };
+}
+
+const router = Router();
+
+// Check whether a receipt reference has already been claimed
+router.get('/:provider/:reference', async (req: CustomRequest, res: Response): Promise<void> => {
+  try {
+    const provider = getProvider(req.params.provider);
+    if (!provider) {
+      throw new AppError(
+        `Unsupported provider. Must be one of: ${listProviderIds().join(', ')}`,
+        ErrorType.VALIDATION,
+        400
+      );
+    }
+
+    const entry = await ReceiptLedgerService.find(provider.id, req.params.reference);
+
+    // Claims by other merchants only reveal when and how the reference was used
+    const ownClaim = Boolean(entry && req.apiKeyData && entry.merchant === req.apiKeyData.owner);
+
+    res.json({
+      success: true,
+      data: {
+        provider: provider.id,
+        reference: normalizeReference(req.params.reference),
+        consumed: Boolean(entry),
+        consumedAt: entry?.consumedAt ?? null,
+        source: entry?.source ?? null,
+        consumedByYou: ownClaim,
+        ...(entry && ownClaim && {
+          paymentIntentId: entry.paymentIntentId,
+          ...(entry.amount && serializeAmount(entry.amount)),
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('Error looking up consumed receipt:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+export default router;
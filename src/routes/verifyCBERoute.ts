@@ -1,5 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { verifyCBE } from '../services/verifyCBE';
+import { verifyWithProvider } from '../services/providers';
+import { cbeProvider as provider } from '../services/providers/cbeProvider';
+import { ReceiptLedgerService } from '../services/receiptLedgerService';
+import { bypassesCache, setCacheStatusHeader } from '../services/verificationCache';
+import { AppError } from '../utils/errorHandler';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -7,13 +11,15 @@ const router = Router();
 interface VerifyRequestBody {
     reference: string;
     accountSuffix: string;
+    /** Claim the reference in the ledger so it cannot be verified again with consume */
+    consume?: boolean;
 }
 
 router.post('/', async function (
     req: Request<{}, {}, VerifyRequestBody>,
     res: Response
 ): Promise<void> {
-    const { reference, accountSuffix } = req.body;
+    const { reference, accountSuffix, consume } = req.body;
 
     if (!reference || !accountSuffix) {
         res.status(400).json({ success: false, error: 'Missing reference or accountSuffix.' });
@@ -21,9 +27,27 @@ router.post('/', async function (
     }
 
     try {
-        const result = await verifyCBE(reference, accountSuffix);
-        res.json(result);
+        if (consume) {
+            await ReceiptLedgerService.assertNotConsumed(provider.id, reference);
+        }
+
+        const verification = await verifyWithProvider(provider, reference, { accountSuffix, skipCache: bypassesCache(req) });
+        const consumed = consume && verification.success && verification.receipt
+            ? await ReceiptLedgerService.consumeVerified(reference, verification.receipt, (req as any).apiKeyData)
+            : null;
+
+        setCacheStatusHeader(res, verification.cache);
+        res.json({
+            ...verification.raw,
+            receipt: verification.receipt ?? null,
+            cache: verification.cache ?? null,
+            ...(consumed && { consumedAt: consumed.consumedAt }),
+        });
     } catch (err) {
+        if (err instanceof AppError) {
+            res.status(err.statusCode).json({ success: false, error: err.message, code: err.code, details: err.details });
+            return;
+        }
         logger.error("💥 Payment verification failed:", err);
         res.status(500).json({ success: false, error: 'Server error verifying payment.' });
     }
@@ -41,8 +65,9 @@ router.get('/', async function(
     }
 
     try {
-        const result = await verifyCBE(reference, accountSuffix);
-        res.json(result);
+        const verification = await verifyWithProvider(provider, reference, { accountSuffix, skipCache: bypassesCache(req) });
+        setCacheStatusHeader(res, verification.cache);
+        res.json({ ...verification.raw, receipt: verification.receipt ?? null, cache: verification.cache ?? null });
     } catch (err) {
         logger.error(err);
         res.status(500).json({ success: false, error: 'Server error verifying payment.' });
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { ReceiptDocumentService } from '../services/receiptDocumentService';
+
+const router = Router();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
+
+const verifyDocumentSchema = z.object({
+  // Fetch the receipt from the provider too and compare it with the document
+  crossCheck: z.enum(['true', 'false']).optional(),
+  // Last 8 digits of the receiver account, needed to cross-check CBE receipts
+  accountSuffix: z.string().trim().regex(/^\d{8}$/, 'Must be the last 8 digits of the receiver account').optional(),
+});
+
+// Verify an uploaded CBE receipt PDF or saved Telebirr receipt page
+router.post('/', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      throw new AppError('No file uploaded', ErrorType.VALIDATION, 400);
+    }
+    const parsed = verifyDocumentSchema.parse({ ...req.query, ...req.body });
+
+    const verification = await ReceiptDocumentService.verify(req.file.buffer, {
+      crossCheck: parsed.crossCheck === 'true',
+      accountSuffix: parsed.accountSuffix,
+    });
+
+    logger.info(`Verified ${verification.provider} ${verification.format} document ${verification.reference}`, {
+      verified: verification.verified,
+      verification: verification.verification,
+      crossCheck: verification.crossCheck?.outcome,
+    });
+    res.json({ success: true, data: verification });
+  } catch (error) {
+    logger.error('Error verifying receipt document:', error);
+    sendErrorResponse(res, error);
+  }
+});
+
+export default router;
@@ -1,17 +1,23 @@
 import { Router, Request, Response } from 'express';
-import { verifyTelebirr } from '../services/verifyTelebirr';
+import { verifyWithProvider } from '../services/providers';
+import { telebirrProvider as provider } from '../services/providers/telebirrProvider';
+import { ReceiptLedgerService } from '../services/receiptLedgerService';
+import { bypassesCache, setCacheStatusHeader } from '../services/verificationCache';
+import { AppError } from '../utils/errorHandler';
 import logger from '../utils/logger';
 
 const router = Router();
 
 interface VerifyTelebirrRequestBody {
     reference: string;
+    /** Claim the reference in the ledger so it cannot be verified again with consume */
+    consume?: boolean;
 }
 
 router.post<{}, {}, VerifyTelebirrRequestBody>(
     '/',
     async (req: Request<{}, {}, VerifyTelebirrRequestBody>, res: Response): Promise<void> => {
-        const { reference } = req.body;
+        const { reference, consume } = req.body;
 
         if (!reference) {
             res.status(400).json({ success: false, error: 'Missing reference.' });
@@ -19,13 +25,33 @@ router.post<{}, {}, VerifyTelebirrRequestBody>(
         }
 
         try {
-            const result = await verifyTelebirr(reference);
-            if (!result) {
+            if (consume) {
+                await ReceiptLedgerService.assertNotConsumed(provider.id, reference);
+            }
+
+            const verification = await verifyWithProvider(provider, reference, { skipCache: bypassesCache(req) });
+            setCacheStatusHeader(res, verification.cache);
+            if (!verification.raw) {
                 res.status(404).json({ success: false, error: 'Receipt not found or could not be processed.' });
                 return;
             }
-            res.json({ success: true, data: result });
+
+            const consumed = consume && verification.success && verification.receipt
+                ? await ReceiptLedgerService.consumeVerified(reference, verification.receipt, (req as any).apiKeyData)
+                : null;
+
+            res.json({
+                success: true,
+                data: verification.raw,
+                receipt: verification.receipt ?? null,
+                cache: verification.cache ?? null,
+                ...(consumed && { consumedAt: consumed.consumedAt }),
+            });
         } catch (err) {
+            if (err instanceof AppError) {
+                res.status(err.statusCode).json({ success: false, error: err.message, code: err.code, details: err.details });
+                return;
+            }
             logger.error('Telebirr verification error:', err);
             res.status(500).json({ 
                 success: false, 
@@ -5,6 +5,7 @@ import crypto from 'crypto';
 import logger from '../utils/logger';
 import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
 import { prisma } from '../utils/prisma';
+import { WEBHOOK_EVENT_TYPES } from '../services/webhookService';
 
 // Extend Request interface to include apiKeyData from apiKeyAuth middleware
 interface CustomRequest extends Request {
@@ -16,13 +17,13 @@ const router = Router();
 // Webhook subscription schemas
 const createWebhookSchema = z.object({
   url: z.string().url(),
-  events: z.array(z.enum(['payment_intent.created', 'payment_intent.confirmed', 'payment_intent.failed', 'payment_intent.expired'])),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
   secret: z.string().min(16).optional(), // Optional custom secret, will generate if not provided
 });
 
 const updateWebhookSchema = z.object({
   url: z.string().url().optional(),
-  events: z.array(z.enum(['payment_intent.created', 'payment_intent.confirmed', 'payment_intent.failed', 'payment_intent.expired'])).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional(),
   secret: z.string().min(16).optional(),
   isActive: z.boolean().optional(),
 });
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NormalizedReceipt } from '../types/receipt';
+import { amountPolicySchema, compareAmounts, DEFAULT_AMOUNT_POLICY, matchAmount, parseStoredPolicy } from './amountMatching';
+
+const receipt = (amount: number, totalAmount: number): NormalizedReceipt => ({
+  provider: 'Telebirr',
+  reference: 'CE12345678',
+  payerName: null,
+  payerAccount: null,
+  receiverName: null,
+  receiverAccount: null,
+  amount,
+  fee: totalAmount - amount,
+  vat: 0,
+  totalAmount,
+  currency: 'ETB',
+  timestamp: null,
+  status: 'completed',
+  raw: null,
+});
+
+test('the default policy needs the exact total', () => {
+  assert.equal(compareAmounts(10000, 10000, DEFAULT_AMOUNT_POLICY).outcome, 'exact');
+
+  const under = compareAmounts(10000, 9999, DEFAULT_AMOUNT_POLICY);
+  assert.equal(under.outcome, 'underpaid');
+  assert.equal(under.matched, false);
+  assert.equal(under.deltaMinor, -1);
+
+  const over = compareAmounts(10000, 10001, DEFAULT_AMOUNT_POLICY);
+  assert.equal(over.outcome, 'overpaid');
+  assert.equal(over.matched, false);
+});
+
+test('accepts differences within the larger of the absolute and percentage tolerance', () => {
+  const policy = amountPolicySchema.parse({ toleranceAmount: 1, tolerancePercent: 2 });
+  assert.equal(policy.toleranceMinor, 100);
+
+  // 2% of 100.00 is 2.00, more than the 1.00 absolute tolerance
+  const within = compareAmounts(10000, 9800, policy);
+  assert.equal(within.outcome, 'within_tolerance');
+  assert.equal(within.matched, true);
+  assert.equal(within.allowedDeltaMinor, 200);
+
+  assert.equal(compareAmounts(10000, 9799, policy).matched, false);
+});
+
+test('rounds percentage tolerance down to whole santim', () => {
+  const policy = amountPolicySchema.parse({ tolerancePercent: 1 });
+  assert.equal(compareAmounts(12345, 12345 - 123, policy).matched, true);
+  assert.equal(compareAmounts(12345, 12345 - 124, policy).matched, false);
+});
+
+test('accepts overpayment beyond the tolerance only when allowed', () => {
+  const policy = amountPolicySchema.parse({ allowOverpayment: true });
+  const over = compareAmounts(10000, 15000, policy);
+  assert.equal(over.outcome, 'overpaid');
+  assert.equal(over.matched, true);
+  assert.equal(compareAmounts(10000, 5000, policy).matched, false);
+});
+
+test('compares the settled amount or the total depending on the basis', () => {
+  const paid = receipt(10000, 10250);
+  assert.equal(matchAmount(10000, paid, DEFAULT_AMOUNT_POLICY).matched, false);
+  assert.equal(matchAmount(10000, paid, amountPolicySchema.parse({ basis: 'settled' })).matched, true);
+});
+
+test('falls back to the default policy for intents stored without one', () => {
+  assert.deepEqual(parseStoredPolicy(null), DEFAULT_AMOUNT_POLICY);
+  assert.deepEqual(parseStoredPolicy([1, 2]), DEFAULT_AMOUNT_POLICY);
+  assert.deepEqual(parseStoredPolicy({ basis: 'settled' }), { ...DEFAULT_AMOUNT_POLICY, basis: 'settled' });
+});
+
+test('rejects tolerances outside their range', () => {
+  assert.equal(amountPolicySchema.safeParse({ tolerancePercent: 101 }).success, false);
+  assert.equal(amountPolicySchema.safeParse({ toleranceAmount: -1 }).success, false);
+});
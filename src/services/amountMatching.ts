@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { amountSchema, amountToMinor } from '../utils/money';
+import { NormalizedReceipt } from '../types/receipt';
+
+/**
+ * How a receipt amount is compared with an intent's amount
+ */
+export interface AmountMatchingPolicy {
+  /** Compare against the settled amount (excluding fees) or the total the payer paid */
+  basis: 'settled' | 'total';
+  /** Accept payments above the expected amount beyond the tolerance */
+  allowOverpayment: boolean;
+  /** Absolute tolerance in minor units */
+  toleranceMinor: number;
+  /** Tolerance as a percentage of the expected amount */
+  tolerancePercent: number;
+}
+
+export type AmountMatchOutcome = 'exact' | 'within_tolerance' | 'overpaid' | 'underpaid';
+
+export interface AmountMatchResult {
+  matched: boolean;
+  outcome: AmountMatchOutcome;
+  basis: AmountMatchingPolicy['basis'];
+  expectedMinor: number;
+  receivedMinor: number;
+  /** Received minus expected; positive for overpayment, negative for underpayment */
+  deltaMinor: number;
+  allowedDeltaMinor: number;
+}
+
+// Matches the original behavior: the total paid must equal the intent amount exactly
+export const DEFAULT_AMOUNT_POLICY: AmountMatchingPolicy = {
+  basis: 'total',
+  allowOverpayment: false,
+  toleranceMinor: 0,
+  tolerancePercent: 0,
+};
+
+/**
+ * Policy as accepted when creating an intent; the tolerance amount is in birr
+ */
+export const amountPolicySchema = z
+  .object({
+    basis: z.enum(['settled', 'total']).optional(),
+    allowOverpayment: z.boolean().optional(),
+    toleranceAmount: amountSchema.optional(),
+    tolerancePercent: z.number().min(0).max(100).optional(),
+  })
+  .transform((input): AmountMatchingPolicy => ({
+    basis: input.basis ?? DEFAULT_AMOUNT_POLICY.basis,
+    allowOverpayment: input.allowOverpayment ?? DEFAULT_AMOUNT_POLICY.allowOverpayment,
+    toleranceMinor: input.toleranceAmount ? amountToMinor(input.toleranceAmount) : 0,
+    tolerancePercent: input.tolerancePercent ?? 0,
+  }));
+
+/**
+ * Read a policy stored on an intent, falling back to the default for intents created without one
+ */
+export const parseStoredPolicy = (value: Prisma.JsonValue | null | undefined): AmountMatchingPolicy => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_AMOUNT_POLICY;
+  }
+  return { ...DEFAULT_AMOUNT_POLICY, ...(value as Partial<AmountMatchingPolicy>) };
+};
+
+/**
+ * The receipt amount a policy compares against
+ */
+export const receiptAmountFor = (receipt: NormalizedReceipt, policy: AmountMatchingPolicy): number =>
+  policy.basis === 'settled' ? receipt.amount : receipt.totalAmount;
+
+/**
+ * Compare a received amount with the expected amount under a policy
+ */
+export const compareAmounts = (
+  expectedMinor: number,
+  receivedMinor: number,
+  policy: AmountMatchingPolicy
+): AmountMatchResult => {
+  const deltaMinor = receivedMinor - expectedMinor;
+
+  const percentToleranceMinor = new Prisma.Decimal(expectedMinor)
+    .times(policy.tolerancePercent)
+    .dividedBy(100)
+    .floor()
+    .toNumber();
+  const allowedDeltaMinor = Math.max(policy.toleranceMinor, percentToleranceMinor);
+
+  let outcome: AmountMatchOutcome;
+  let matched: boolean;
+  if (deltaMinor === 0) {
+    outcome = 'exact';
+    matched = true;
+  } else if (Math.abs(deltaMinor) <= allowedDeltaMinor) {
+    outcome = 'within_tolerance';
+    matched = true;
+  } else if (deltaMinor > 0) {
+    outcome = 'overpaid';
+    matched = policy.allowOverpayment;
+  } else {
+    outcome = 'underpaid';
+    matched = false;
+  }
+
+  return {
+    matched,
+    outcome,
+    basis: policy.basis,
+    expectedMinor,
+    receivedMinor,
+    deltaMinor,
+    allowedDeltaMinor,
+  };
+};
+
+/**
+ * Compare a receipt's amount with the expected amount under a policy
+ */
+export const matchAmount = (
+  expectedMinor: number,
+  receipt: NormalizedReceipt,
+  policy: AmountMatchingPolicy
+): AmountMatchResult => compareAmounts(expectedMinor, receiptAmountFor(receipt, policy), policy);
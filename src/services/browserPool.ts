@@ -0,0 +1,259 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import logger from '../utils/logger';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { positiveIntEnv } from '../utils/env';
+
+// Pages open at the same time in the shared browser; further requests wait in the queue
+const MAX_PAGES = positiveIntEnv('BROWSER_POOL_MAX_PAGES', 2);
+
+// How long a request waits for a free page before giving up
+const ACQUIRE_TIMEOUT_MS = positiveIntEnv('BROWSER_POOL_ACQUIRE_TIMEOUT_MS', 30000);
+
+// Close the browser after this long without work, to hand its memory back
+const IDLE_SHUTDOWN_MS = positiveIntEnv('BROWSER_POOL_IDLE_SECONDS', 60) * 1000;
+
+// Pages are replaced after this many uses so one site's state cannot pile up
+const MAX_PAGE_USES = 20;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--ignore-certificate-errors',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+];
+
+interface PooledPage {
+  page: Page;
+  uses: number;
+}
+
+interface Waiter {
+  resolve: (page: PooledPage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface BrowserPoolMetrics {
+  maxPages: number;
+  browserRunning: boolean;
+  activePages: number;
+  idlePages: number;
+  queueLength: number;
+  launches: number;
+  launchFailures: number;
+  acquireTimeouts: number;
+  pagesDiscarded: number;
+}
+
+let browser: Browser | null = null;
+let launching: Promise<Browser> | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+const idlePages: PooledPage[] = [];
+const waiters: Waiter[] = [];
+let activePages = 0;
+
+const counters = {
+  launches: 0,
+  launchFailures: 0,
+  acquireTimeouts: 0,
+  pagesDiscarded: 0,
+};
+
+/**
+ * Shared headless Chromium for provider sites that need a real browser. Pages are reused
+ * and capped at BROWSER_POOL_MAX_PAGES so overlapping lookups do not each start a browser.
+ */
+export class BrowserPool {
+  /**
+   * Run a task with a page from the pool. The page goes back to the pool afterwards, or is
+   * closed if the task failed, since it may be left mid-navigation.
+   * @throws AppError 503 when no page frees up within BROWSER_POOL_ACQUIRE_TIMEOUT_MS
+   */
+  static async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const pooled = await this.acquire();
+    let healthy = false;
+    try {
+      const result = await task(pooled.page);
+      healthy = true;
+      return result;
+    } finally {
+      await this.release(pooled, healthy);
+    }
+  }
+
+  static metrics(): BrowserPoolMetrics {
+    return {
+      maxPages: MAX_PAGES,
+      browserRunning: Boolean(browser?.connected),
+      activePages,
+      idlePages: idlePages.length,
+      queueLength: waiters.length,
+      ...counters,
+    };
+  }
+
+  /**
+   * Close the browser and reject queued requests, e.g. on shutdown
+   */
+  static async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    while (waiters.length > 0) {
+      const waiter = waiters.shift()!;
+      clearTimeout(waiter.timer);
+      waiter.reject(new AppError('Browser pool is shutting down', ErrorType.INTERNAL, 503));
+    }
+    idlePages.length = 0;
+    const current = browser;
+    browser = null;
+    if (current) {
+      await current.close().catch(error => logger.warn('Error closing pooled browser', { error: error.message }));
+    }
+  }
+
+  private static async acquire(): Promise<PooledPage> {
+    this.clearIdleTimer();
+
+    if (activePages < MAX_PAGES) {
+      activePages++;
+      try {
+        return await this.takePage();
+      } catch (error) {
+        activePages--;
+        this.handOff();
+        throw error;
+      }
+    }
+
+    return new Promise<PooledPage>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          counters.acquireTimeouts++;
+          reject(new AppError('Timed out waiting for a browser page', ErrorType.INTERNAL, 503));
+        }, ACQUIRE_TIMEOUT_MS),
+      };
+      waiters.push(waiter);
+    });
+  }
+
+  /**
+   * An idle page that still works, or a new one in a running browser
+   */
+  private static async takePage(): Promise<PooledPage> {
+    while (idlePages.length > 0) {
+      const pooled = idlePages.pop()!;
+      if (!pooled.page.isClosed() && browser?.connected) {
+        return pooled;
+      }
+      counters.pagesDiscarded++;
+    }
+
+    const current = await this.getBrowser();
+    return { page: await current.newPage(), uses: 0 };
+  }
+
+  private static async release(pooled: PooledPage, healthy: boolean): Promise<void> {
+    pooled.uses++;
+    pooled.page.removeAllListeners();
+
+    let reusable = healthy && pooled.uses < MAX_PAGE_USES && !pooled.page.isClosed() && Boolean(browser?.connected);
+    if (reusable) {
+      // Leave the provider site so it stops running scripts while the page waits
+      reusable = await pooled.page
+        .goto('about:blank', { timeout: 5000 })
+        .then(() => true, () => false);
+    }
+
+    if (reusable) {
+      idlePages.push(pooled);
+    } else {
+      counters.pagesDiscarded++;
+      await pooled.page.close().catch(() => undefined);
+    }
+
+    activePages--;
+    this.handOff();
+  }
+
+  /**
+   * Give a freed slot to the next queued request, or start the idle countdown
+   */
+  private static handOff(): void {
+    const waiter = waiters.shift();
+    if (!waiter) {
+      if (activePages === 0) {
+        this.scheduleIdleShutdown();
+      }
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    activePages++;
+    this.takePage().then(waiter.resolve, error => {
+      activePages--;
+      waiter.reject(error);
+      this.handOff();
+    });
+  }
+
+  private static getBrowser(): Promise<Browser> {
+    if (browser?.connected) {
+      return Promise.resolve(browser);
+    }
+
+    launching ??= puppeteer
+      .launch({
+        headless: true,
+        args: LAUNCH_ARGS,
+        executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+      })
+      .then(launched => {
+        counters.launches++;
+        browser = launched;
+        launched.on('disconnected', () => {
+          if (browser === launched) {
+            logger.warn('Pooled browser disconnected');
+            browser = null;
+            idlePages.length = 0;
+          }
+        });
+        logger.info('Launched pooled browser');
+        return launched;
+      })
+      .catch(error => {
+        counters.launchFailures++;
+        logger.error('Failed to launch pooled browser', { error: error.message });
+        throw error;
+      })
+      .finally(() => {
+        launching = null;
+      });
+
+    return launching;
+  }
+
+  private static scheduleIdleShutdown(): void {
+    this.clearIdleTimer();
+    if (!browser) {
+      return;
+    }
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (activePages === 0 && waiters.length === 0) {
+        logger.info('Closing idle pooled browser');
+        this.shutdown();
+      }
+    }, IDLE_SHUTDOWN_MS);
+    idleTimer.unref();
+  }
+
+  private static clearIdleTimer(): void {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { positiveIntEnv } from '../utils/env';
+
+// Default lifetime of a hosted checkout link
+export const CHECKOUT_TOKEN_TTL_MINUTES = positiveIntEnv('CHECKOUT_TOKEN_TTL_MINUTES', 30);
+
+interface CheckoutTokenPayload {
+  /** Payment intent id */
+  i: string;
+  /** Expiry as a Unix timestamp in seconds */
+  e: number;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.CHECKOUT_SIGNING_SECRET;
+  if (!secret) {
+    throw new AppError('Hosted checkout is not configured', ErrorType.INTERNAL, 500);
+  }
+  return secret;
+};
+
+const sign = (payload: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+export class CheckoutTokenService {
+  /**
+   * Whether hosted checkout links can be signed
+   */
+  static isConfigured(): boolean {
+    return Boolean(process.env.CHECKOUT_SIGNING_SECRET);
+  }
+
+  /**
+   * Create a token that lets a customer open the hosted checkout for one intent
+   * without the merchant's API key
+   */
+  static create(intentId: string, ttlMinutes: number = CHECKOUT_TOKEN_TTL_MINUTES): { token: string; expiresAt: Date } {
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+    const payload: CheckoutTokenPayload = { i: intentId, e: Math.floor(expiresAt.getTime() / 1000) };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return { token: `${encoded}.${sign(encoded, getSecret())}`, expiresAt };
+  }
+
+  /**
+   * Create a token and the hosted checkout path that uses it
+   */
+  static createLink(
+    intentId: string,
+    options: { ttlMinutes?: number; lang?: string } = {}
+  ): { path: string; token: string; expiresAt: Date } {
+    const { token, expiresAt } = this.create(intentId, options.ttlMinutes);
+    const path = `/checkout/${encodeURIComponent(intentId)}?token=${encodeURIComponent(token)}${options.lang ? `&lang=${options.lang}` : ''}`;
+    return { path, token, expiresAt };
+  }
+
+  /**
+   * Check a token was issued for this intent and has not expired
+   */
+  static verify(token: string | undefined, intentId: string): boolean {
+    if (!token) {
+      return false;
+    }
+
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(sign(encoded, getSecret()));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return false;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as CheckoutTokenPayload;
+      return payload.i === intentId && payload.e * 1000 > Date.now();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { PaymentIntent, PaymentIntentStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import { prisma } from '../utils/prisma';
+import { positiveIntEnv } from '../utils/env';
+import { PaymentIntentService } from './paymentIntentService';
+import { IntentActor, SYSTEM_ACTOR } from './intentEventService';
+
+// Number of background confirmations verified at the same time
+const WORKER_CONCURRENCY = positiveIntEnv('CONFIRMATION_WORKER_CONCURRENCY', 2);
+
+interface ConfirmationJob {
+  intentId: string;
+  reference: string;
+  actor: IntentActor;
+  lockId: string;
+}
+
+const queue: ConfirmationJob[] = [];
+let running = 0;
+
+export class ConfirmationWorker {
+  /**
+   * Move an intent to processing and queue its verification
+   * @returns The intent in processing status
+   */
+  static async submit(intent: PaymentIntent, reference: string, actor: IntentActor): Promise<PaymentIntent> {
+    const lease = await PaymentIntentService.beginConfirmation(intent, reference, actor);
+    this.enqueue({ intentId: intent.id, reference, actor, lockId: lease.lockId });
+    return lease.intent;
+  }
+
+  /**
+   * Requeue intents left in processing by a worker that stopped, such as
+   * across a restart. Only intents whose lease has lapsed are taken over.
+   */
+  static async recoverStuckIntents(): Promise<number> {
+    let recovered = 0;
+
+    try {
+      const stuckIntents = await prisma.paymentIntent.findMany({
+        where: {
+          status: PaymentIntentStatus.processing,
+          processingReference: { not: null },
+          OR: [{ confirmLockedUntil: null }, { confirmLockedUntil: { lt: new Date() } }],
+        },
+        orderBy: { confirmLockedUntil: 'asc' },
+        take: 100,
+      });
+
+      for (const intent of stuckIntents) {
+        try {
+          const lockId = await PaymentIntentService.reclaimProcessing(intent);
+          if (!lockId) {
+            continue;
+          }
+          this.enqueue({
+            intentId: intent.id,
+            reference: intent.processingReference!,
+            actor: SYSTEM_ACTOR,
+            lockId,
+          });
+          recovered++;
+        } catch (error) {
+          logger.error(`Error recovering payment intent ${intent.id}`, error);
+        }
+      }
+
+      if (recovered > 0) {
+        logger.info(`Requeued ${recovered} payment intents stuck in processing`);
+      }
+    } catch (error) {
+      logger.error('Error in recoverStuckIntents', error);
+    }
+
+    return recovered;
+  }
+
+  private static enqueue(job: ConfirmationJob): void {
+    queue.push(job);
+    this.drain();
+  }
+
+  private static drain(): void {
+    while (running < WORKER_CONCURRENCY && queue.length > 0) {
+      const job = queue.shift()!;
+      running++;
+      this.run(job).finally(() => {
+        running--;
+        this.drain();
+      });
+    }
+  }
+
+  private static async run(job: ConfirmationJob): Promise<void> {
+    try {
+      const intent = await PaymentIntentService.completeConfirmation(job.intentId, job.reference, job.actor, job.lockId);
+      logger.info(`Background confirmation of payment intent ${job.intentId} finished with status ${intent?.status ?? 'unknown'}`);
+    } catch (error) {
+      logger.error(`Error in background confirmation of payment intent ${job.intentId}`, error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+// Event types recorded in a payment intent's audit trail
+export const INTENT_EVENT_TYPES = [
+  'created',
+  'confirm_queued',
+  'confirm_attempted',
+  'verified',
+  'contribution_added',
+  'failed',
+  'expired',
+  'canceled',
+  'metadata_updated',
+] as const;
+
+export type IntentEventType = typeof INTENT_EVENT_TYPES[number];
+
+// Who performed an action on an intent
+export interface IntentActor {
+  type: 'api_key' | 'admin' | 'system' | 'checkout' | 'payment_link';
+  id?: string | null;
+  requestId?: string | null;
+}
+
+export const SYSTEM_ACTOR: IntentActor = { type: 'system' };
+
+/**
+ * Build the actor for a request authenticated with an API key
+ */
+export const actorFromRequest = (req: Request): IntentActor => ({
+  type: 'api_key',
+  id: (req as any).apiKeyData?.id ?? null,
+  requestId: (req as any).requestId ?? null,
+});
+
+/**
+ * Build the actor for a customer using the hosted checkout
+ */
+export const actorFromCheckout = (req: Request): IntentActor => ({
+  type: 'checkout',
+  id: null,
+  requestId: (req as any).requestId ?? null,
+});
+
+/**
+ * Build the actor for an intent created by a customer visiting a payment link
+ */
+export const actorFromPaymentLink = (req: Request, linkId: string): IntentActor => ({
+  type: 'payment_link',
+  id: linkId,
+  requestId: (req as any).requestId ?? null,
+});
+
+export class IntentEventService {
+  /**
+   * Append an event to an intent's audit trail. Pass the transaction client
+   * when the event belongs to a state change so both are written together.
+   */
+  static async record(
+    client: Prisma.TransactionClient,
+    paymentIntentId: string,
+    type: IntentEventType,
+    actor: IntentActor,
+    data?: Prisma.InputJsonValue
+  ): Promise<void> {
+    await client.paymentIntentEvent.create({
+      data: {
+        paymentIntentId,
+        type,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        requestId: actor.requestId ?? null,
+        data: data ?? Prisma.JsonNull,
+      },
+    });
+  }
+
+  /**
+   * Events for an intent, oldest first
+   */
+  static async list(paymentIntentId: string) {
+    return prisma.paymentIntentEvent.findMany({
+      where: { paymentIntentId },
+      orderBy: { id: 'asc' },
+    });
+  }
+}
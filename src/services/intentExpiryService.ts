@@ -0,0 +1,109 @@
+import { PaymentIntent, PaymentIntentStatus } from '@prisma/client';
+import logger from '../utils/logger';
+import { serializeAmount } from '../utils/money';
+import { prisma } from '../utils/prisma';
+import { WebhookService } from './webhookService';
+import { tryTransitionIntent } from './intentStateMachine';
+import { IntentEventService, IntentActor, SYSTEM_ACTOR } from './intentEventService';
+import { IntentStream } from './intentStream';
+
+// Maximum number of intents expired per sweep batch
+const SWEEP_BATCH_SIZE = 100;
+
+export class IntentExpiryService {
+  /**
+   * Expire a single intent if it is still in the status it was read in and past its expiry time.
+   * The status change is a conditional update, so when several workers race
+   * only one of them transitions the intent and sends the webhook.
+   */
+  static async expireIntent(
+    target: Pick<PaymentIntent, 'id' | 'status'>,
+    actor: IntentActor = SYSTEM_ACTOR
+  ): Promise<boolean> {
+    const intent = await prisma.$transaction(async tx => {
+      const expiredIntent = await tryTransitionIntent(
+        tx,
+        target,
+        PaymentIntentStatus.expired,
+        {},
+        { expiresAt: { lte: new Date() } }
+      );
+      if (expiredIntent) {
+        await IntentEventService.record(tx, target.id, 'expired', actor, {
+          expiresAt: expiredIntent.expiresAt.toISOString(),
+        });
+      }
+      return expiredIntent;
+    });
+
+    if (!intent) {
+      return false;
+    }
+
+    logger.info(`Expired payment intent ${intent.id}`);
+    IntentStream.publish(intent);
+
+    WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.expired', {
+      id: intent.id,
+      ...serializeAmount(intent.amount),
+      amountReceived: serializeAmount(intent.amountReceived).amount,
+      merchant: intent.merchant,
+      paymentMethodType: intent.paymentMethodType,
+      status: intent.status,
+      expiresAt: intent.expiresAt,
+      createdAt: intent.createdAt,
+      metadata: intent.metadata,
+    }).catch(error => {
+      logger.error('Failed to send webhook for payment intent expiry', error);
+    });
+
+    return true;
+  }
+
+  /**
+   * Find pending and partially paid intents past their expiry time and expire them
+   */
+  static async expireStaleIntents(): Promise<number> {
+    let expired = 0;
+
+    try {
+      while (true) {
+        const staleIntents = await prisma.paymentIntent.findMany({
+          where: {
+            status: { in: [PaymentIntentStatus.pending, PaymentIntentStatus.partially_paid] },
+            expiresAt: { lte: new Date() },
+          },
+          select: { id: true, status: true },
+          orderBy: { expiresAt: 'asc' },
+          take: SWEEP_BATCH_SIZE,
+        });
+
+        let batchExpired = 0;
+        for (const staleIntent of staleIntents) {
+          try {
+            if (await this.expireIntent(staleIntent)) {
+              batchExpired++;
+            }
+          } catch (error) {
+            logger.error(`Error expiring payment intent ${staleIntent.id}`, error);
+          }
+        }
+
+        expired += batchExpired;
+
+        // Stop when the backlog is drained, or when a full batch made no progress
+        if (staleIntents.length < SWEEP_BATCH_SIZE || batchExpired === 0) {
+          break;
+        }
+      }
+
+      if (expired > 0) {
+        logger.info(`Expired ${expired} stale payment intents`);
+      }
+    } catch (error) {
+      logger.error('Error in expireStaleIntents', error);
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,73 @@
+import { PaymentIntent } from '@prisma/client';
+import QRCode from 'qrcode';
+import { amountToMinor, formatMinor } from '../utils/money';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { assertIntentPayable } from './intentStateMachine';
+import { CheckoutTokenService } from './checkoutTokenService';
+
+export const QR_FORMATS = ['png', 'svg'] as const;
+
+export type QrFormat = typeof QR_FORMATS[number];
+
+/** What the code holds: the bare checkout link, which phone cameras open, or the payment details as text */
+export const QR_CONTENTS = ['link', 'details'] as const;
+
+export type QrContent = typeof QR_CONTENTS[number];
+
+export interface IntentQrOptions {
+  format: QrFormat;
+  /** Defaults to the link when hosted checkout is configured, otherwise the details */
+  content?: QrContent;
+  /** Image width in pixels */
+  size: number;
+  /** Public base URL for the hosted checkout link */
+  baseUrl: string;
+  lang?: string;
+}
+
+export class IntentQrService {
+  /**
+   * Hosted checkout link for an intent, valid until the intent expires
+   */
+  static buildLink(intent: PaymentIntent, baseUrl: string, lang?: string): string {
+    if (!CheckoutTokenService.isConfigured()) {
+      throw new AppError('Hosted checkout is not configured', ErrorType.INTERNAL, 503, undefined, 'checkout_not_configured');
+    }
+
+    const ttlMinutes = Math.max(1, Math.ceil((intent.expiresAt.getTime() - Date.now()) / 60000));
+    const { path } = CheckoutTokenService.createLink(intent.id, { ttlMinutes, lang });
+    return `${baseUrl}${path}`;
+  }
+
+  /**
+   * Payment details for reading off the scanned code: one "Label: value" line per field
+   */
+  static buildDetails(intent: PaymentIntent): string {
+    return [
+      'LumePay payment',
+      `Pay to: ${intent.expectedReceiverName ?? intent.merchant}`,
+      `Account: ${intent.expectedReceiverAccount}`,
+      `Amount: ${formatMinor(amountToMinor(intent.amount))} ETB`,
+      `Intent: ${intent.id}`,
+    ].join('\n');
+  }
+
+  /**
+   * Render the QR code for an intent that can still be paid
+   * @returns The image and its content type
+   */
+  static async render(intent: PaymentIntent, options: IntentQrOptions): Promise<{ body: Buffer | string; contentType: string }> {
+    assertIntentPayable(intent);
+
+    const content = options.content ?? (CheckoutTokenService.isConfigured() ? 'link' : 'details');
+    const payload = content === 'link'
+      ? this.buildLink(intent, options.baseUrl, options.lang)
+      : this.buildDetails(intent);
+    const renderOptions = { errorCorrectionLevel: 'M' as const, margin: 2, width: options.size };
+
+    if (options.format === 'svg') {
+      return { body: await QRCode.toString(payload, { ...renderOptions, type: 'svg' }), contentType: 'image/svg+xml' };
+    }
+    return { body: await QRCode.toBuffer(payload, { ...renderOptions, type: 'png' }), contentType: 'image/png' };
+  }
+}
@@ -0,0 +1,142 @@
+import { PaymentIntent, PaymentIntentStatus, Prisma } from '@prisma/client';
+import { AppError, ErrorType } from '../utils/errorHandler';
+
+type IntentClient = Prisma.TransactionClient;
+
+// Allowed status transitions for payment intents. Statuses with no outgoing
+// transitions are terminal.
+export const INTENT_TRANSITIONS: Record<PaymentIntentStatus, PaymentIntentStatus[]> = {
+  [PaymentIntentStatus.pending]: [
+    PaymentIntentStatus.processing,
+    PaymentIntentStatus.partially_paid,
+    PaymentIntentStatus.succeeded,
+    PaymentIntentStatus.failed,
+    PaymentIntentStatus.expired,
+    PaymentIntentStatus.canceled,
+  ],
+  // Some contributions were verified but the amount is not yet covered
+  [PaymentIntentStatus.partially_paid]: [
+    PaymentIntentStatus.processing,
+    PaymentIntentStatus.succeeded,
+    PaymentIntentStatus.failed,
+    PaymentIntentStatus.expired,
+    PaymentIntentStatus.canceled,
+  ],
+  // A confirmation is running in the background; it cannot be canceled or
+  // expired until it settles the intent or hands it back
+  [PaymentIntentStatus.processing]: [
+    PaymentIntentStatus.pending,
+    PaymentIntentStatus.partially_paid,
+    PaymentIntentStatus.succeeded,
+    PaymentIntentStatus.failed,
+  ],
+  // A failed verification can be retried with another reference
+  [PaymentIntentStatus.failed]: [
+    PaymentIntentStatus.processing,
+    PaymentIntentStatus.pending,
+    PaymentIntentStatus.partially_paid,
+    PaymentIntentStatus.expired,
+    PaymentIntentStatus.canceled,
+  ],
+  [PaymentIntentStatus.succeeded]: [],
+  [PaymentIntentStatus.expired]: [],
+  [PaymentIntentStatus.canceled]: [],
+};
+
+export const isIntentStatus = (value: string): value is PaymentIntentStatus =>
+  Object.prototype.hasOwnProperty.call(INTENT_TRANSITIONS, value);
+
+export const canTransition = (from: PaymentIntentStatus, to: PaymentIntentStatus): boolean =>
+  INTENT_TRANSITIONS[from].includes(to);
+
+/**
+ * Throw if the transition is not allowed by the state machine
+ */
+export const assertTransition = (from: PaymentIntentStatus, to: PaymentIntentStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new AppError(
+      `Payment intent cannot transition from ${from} to ${to}`,
+      ErrorType.CONFLICT,
+      409,
+      { from, to, allowed: INTENT_TRANSITIONS[from] },
+      'invalid_state_transition'
+    );
+  }
+};
+
+/**
+ * Throw if an intent can no longer be paid: it is in a terminal status, past expiresAt
+ * but not yet reached by the expiry sweeper, or out of confirmation attempts
+ */
+export const assertIntentPayable = (intent: PaymentIntent): void => {
+  const status = intent.status !== PaymentIntentStatus.succeeded && intent.expiresAt <= new Date()
+    ? PaymentIntentStatus.expired
+    : intent.status;
+
+  if (INTENT_TRANSITIONS[status].length === 0) {
+    throw new AppError(
+      `Payment intent is ${status} and can no longer be paid`,
+      ErrorType.CONFLICT,
+      409,
+      { status },
+      'intent_not_payable'
+    );
+  }
+
+  if (intent.attemptCount >= intent.maxAttempts) {
+    throw new AppError(
+      `Payment intent has used all ${intent.maxAttempts} confirmation attempts and can no longer be paid`,
+      ErrorType.CONFLICT,
+      409,
+      { status, attemptCount: intent.attemptCount, maxAttempts: intent.maxAttempts },
+      'intent_not_payable'
+    );
+  }
+};
+
+/**
+ * Move an intent to a new status if it is still in the status it was read in.
+ * Returns null when another request changed the intent first.
+ */
+export const tryTransitionIntent = async (
+  client: IntentClient,
+  intent: Pick<PaymentIntent, 'id' | 'status'>,
+  to: PaymentIntentStatus,
+  data: Prisma.PaymentIntentUpdateManyMutationInput = {},
+  where: Prisma.PaymentIntentWhereInput = {}
+): Promise<PaymentIntent | null> => {
+  assertTransition(intent.status, to);
+
+  const { count } = await client.paymentIntent.updateMany({
+    where: { ...where, id: intent.id, status: intent.status },
+    data: { ...data, status: to },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return client.paymentIntent.findUnique({ where: { id: intent.id } });
+};
+
+/**
+ * Move an intent to a new status, failing with a conflict if it changed concurrently
+ */
+export const transitionIntent = async (
+  client: IntentClient,
+  intent: Pick<PaymentIntent, 'id' | 'status'>,
+  to: PaymentIntentStatus,
+  data: Prisma.PaymentIntentUpdateManyMutationInput = {}
+): Promise<PaymentIntent> => {
+  const updated = await tryTransitionIntent(client, intent, to, data);
+  if (!updated) {
+    throw new AppError(
+      'Payment intent was modified by another request',
+      ErrorType.CONFLICT,
+      409,
+      { id: intent.id },
+      'intent_state_changed'
+    );
+  }
+  return updated;
+};
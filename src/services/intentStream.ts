@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+import { PaymentIntent } from '@prisma/client';
+
+// In-process fan-out of intent updates to open status streams, keyed by intent id
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export type IntentListener = (intent: PaymentIntent) => void;
+
+export class IntentStream {
+  /**
+   * Notify subscribers that an intent changed. Call after the change is committed.
+   */
+  static publish(intent: PaymentIntent): void {
+    emitter.emit(intent.id, intent);
+  }
+
+  /**
+   * Listen for updates to an intent
+   * @returns A function that removes the listener
+   */
+  static subscribe(intentId: string, listener: IntentListener): () => void {
+    emitter.on(intentId, listener);
+    return () => {
+      emitter.off(intentId, listener);
+    };
+  }
+}
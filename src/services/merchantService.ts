@@ -0,0 +1,253 @@
+import { Merchant, MerchantAccount, PaymentIntent, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { DEFAULT_NAME_MATCH_THRESHOLD } from './nameMatching';
+
+// Receiver fields copied onto a payment intent
+export interface ResolvedReceiver {
+  receiverAccountId: string | null;
+  expectedReceiverAccount: string;
+  expectedReceiverName: string | null;
+}
+
+// An account a receipt may be paid into, with every name it can appear under
+export interface ReceiverCandidate {
+  accountId: string | null;
+  accountNumber: string;
+  names: string[];
+}
+
+export interface CreateMerchantAccountInput {
+  provider: string;
+  accountNumber: string;
+  accountName: string;
+  aliases?: string[];
+  isDefault?: boolean;
+}
+
+export interface UpdateMerchantAccountInput {
+  accountName?: string;
+  aliases?: string[];
+  isDefault?: true;
+  isActive?: boolean;
+}
+
+export class MerchantService {
+  /**
+   * Find a merchant by name, creating it if this is the first time it is seen
+   */
+  static async findOrCreate(name: string): Promise<Merchant> {
+    return prisma.merchant.upsert({
+      where: { name },
+      update: {},
+      create: { name },
+    });
+  }
+
+  /**
+   * Active saved accounts of a merchant, defaults first
+   */
+  static async listAccounts(
+    merchantId: string,
+    filter: { provider?: string; includeInactive?: boolean } = {}
+  ): Promise<MerchantAccount[]> {
+    return prisma.merchantAccount.findMany({
+      where: {
+        merchantId,
+        ...(filter.provider && { provider: filter.provider }),
+        ...(!filter.includeInactive && { isActive: true }),
+      },
+      orderBy: [{ provider: 'asc' }, { isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Save a receiver account. The first account for a provider becomes its default.
+   */
+  static async createAccount(merchantId: string, input: CreateMerchantAccountInput): Promise<MerchantAccount> {
+    try {
+      return await prisma.$transaction(async tx => {
+        const existingDefault = await this.findDefault(tx, merchantId, input.provider);
+        const isDefault = input.isDefault ?? !existingDefault;
+        if (isDefault && existingDefault) {
+          await tx.merchantAccount.update({ where: { id: existingDefault.id }, data: { isDefault: false } });
+        }
+
+        return tx.merchantAccount.create({
+          data: {
+            merchantId,
+            provider: input.provider,
+            accountNumber: input.accountNumber,
+            accountName: input.accountName,
+            aliases: input.aliases ?? [],
+            isDefault,
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError(
+          'This account is already saved for the provider',
+          ErrorType.CONFLICT,
+          409,
+          { provider: input.provider, accountNumber: input.accountNumber },
+          'receiver_account_exists'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a saved account. Making it the default clears the previous default;
+   * deactivating the default hands it to the provider's oldest remaining account.
+   */
+  static async updateAccount(account: MerchantAccount, input: UpdateMerchantAccountInput): Promise<MerchantAccount> {
+    const isActive = input.isActive ?? account.isActive;
+    if (input.isDefault && !isActive) {
+      throw new AppError('An inactive account cannot be the default', ErrorType.VALIDATION, 400);
+    }
+
+    return prisma.$transaction(async tx => {
+      if (input.isDefault && !account.isDefault) {
+        await tx.merchantAccount.updateMany({
+          where: { merchantId: account.merchantId, provider: account.provider, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      const losesDefault = account.isDefault && !isActive;
+      const updated = await tx.merchantAccount.update({
+        where: { id: account.id },
+        data: {
+          accountName: input.accountName,
+          aliases: input.aliases,
+          isActive,
+          isDefault: losesDefault ? false : input.isDefault,
+        },
+      });
+
+      if (losesDefault) {
+        const successor = await tx.merchantAccount.findFirst({
+          where: { merchantId: account.merchantId, provider: account.provider, isActive: true, id: { not: account.id } },
+          orderBy: { createdAt: 'asc' },
+        });
+        if (successor) {
+          await tx.merchantAccount.update({ where: { id: successor.id }, data: { isDefault: true } });
+        }
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Work out which account an intent should be paid into: a saved account by id, raw
+   * account details given by the caller, or the merchant's default for the provider
+   */
+  static async resolveReceiver(
+    merchantName: string,
+    provider: string,
+    input: { receiverAccountId?: string | null; expectedReceiverAccount?: string | null; expectedReceiverName?: string | null }
+  ): Promise<ResolvedReceiver> {
+    if (input.receiverAccountId) {
+      const account = await prisma.merchantAccount.findUnique({
+        where: { id: input.receiverAccountId },
+        include: { merchant: true },
+      });
+      if (!account || account.merchant.name !== merchantName) {
+        throw new AppError('Receiver account not found', ErrorType.VALIDATION, 400);
+      }
+      if (!account.isActive) {
+        throw new AppError('Receiver account is inactive', ErrorType.VALIDATION, 400);
+      }
+      if (account.provider !== provider) {
+        throw new AppError(
+          `Receiver account is for ${account.provider}, not ${provider}`,
+          ErrorType.VALIDATION,
+          400
+        );
+      }
+      return { receiverAccountId: account.id, expectedReceiverAccount: account.accountNumber, expectedReceiverName: account.accountName };
+    }
+
+    if (input.expectedReceiverAccount) {
+      return {
+        receiverAccountId: null,
+        expectedReceiverAccount: input.expectedReceiverAccount,
+        expectedReceiverName: input.expectedReceiverName ?? null,
+      };
+    }
+
+    const merchant = await prisma.merchant.findUnique({ where: { name: merchantName } });
+    const account = merchant && await this.findDefault(prisma, merchant.id, provider);
+    if (!account) {
+      throw new AppError(
+        `No receiver account given and no default ${provider} account is saved`,
+        ErrorType.VALIDATION,
+        400,
+        { provider },
+        'receiver_account_required'
+      );
+    }
+    return { receiverAccountId: account.id, expectedReceiverAccount: account.accountNumber, expectedReceiverName: account.accountName };
+  }
+
+  /**
+   * Accounts a receipt for this intent may be paid into. The intent's own account comes
+   * first, with the aliases of its saved account; with matchAnyReceiverAccount every
+   * active account the merchant has for the provider follows.
+   */
+  static async receiverCandidates(intent: PaymentIntent): Promise<ReceiverCandidate[]> {
+    const saved = intent.receiverAccountId
+      ? await prisma.merchantAccount.findUnique({ where: { id: intent.receiverAccountId } })
+      : null;
+
+    const candidates: ReceiverCandidate[] = [{
+      accountId: intent.receiverAccountId,
+      accountNumber: intent.expectedReceiverAccount,
+      names: [intent.expectedReceiverName, ...(saved?.aliases ?? [])].filter((name): name is string => Boolean(name)),
+    }];
+
+    if (intent.matchAnyReceiverAccount) {
+      const others = await prisma.merchantAccount.findMany({
+        where: { merchant: { name: intent.merchant }, provider: intent.paymentMethodType, isActive: true },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      });
+      for (const account of others) {
+        if (candidates.some(candidate => candidate.accountNumber === account.accountNumber)) continue;
+        candidates.push({ accountId: account.id, accountNumber: account.accountNumber, names: [account.accountName, ...account.aliases] });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Receiver name score a merchant's payments must reach
+   */
+  static async nameMatchThreshold(merchantName: string): Promise<number> {
+    const merchant = await prisma.merchant.findUnique({
+      where: { name: merchantName },
+      select: { nameMatchThreshold: true },
+    });
+    return merchant?.nameMatchThreshold ?? DEFAULT_NAME_MATCH_THRESHOLD;
+  }
+
+  /**
+   * Providers among these that the merchant has no active default account for
+   */
+  static async providersWithoutDefault(merchantName: string, providers: string[]): Promise<string[]> {
+    const defaults = await prisma.merchantAccount.findMany({
+      where: { merchant: { name: merchantName }, provider: { in: providers }, isDefault: true, isActive: true },
+      select: { provider: true },
+    });
+    return providers.filter(provider => !defaults.some(account => account.provider === provider));
+  }
+
+  private static findDefault(client: Prisma.TransactionClient, merchantId: string, provider: string): Promise<MerchantAccount | null> {
+    return client.merchantAccount.findFirst({
+      where: { merchantId, provider, isDefault: true, isActive: true },
+    });
+  }
+}
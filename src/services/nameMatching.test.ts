@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchName } from './nameMatching';
+
+const THRESHOLD = 0.85;
+
+const assertMatches = (expected: string, received: string) => {
+  const result = matchName(expected, received, THRESHOLD);
+  assert.ok(result.matched, `expected "${received}" to match "${expected}" (score ${result.score})`);
+};
+
+const assertRejects = (expected: string, received: string | null) => {
+  const result = matchName(expected, received, THRESHOLD);
+  assert.ok(!result.matched, `expected "${received}" not to match "${expected}" (score ${result.score})`);
+};
+
+test('matches the same name regardless of case, punctuation and titles', () => {
+  assert.equal(matchName('Abebe Kebede', 'ABEBE KEBEDE', THRESHOLD).score, 1);
+  assertMatches('Abebe Kebede', 'Ato Abebe Kebede.');
+});
+
+test('matches a trailing initial for the grandfather\'s name', () => {
+  assertMatches('Abebe Kebede Tesfaye', 'ABEBE KEBEDE T');
+});
+
+test('matches reordered names', () => {
+  assertMatches('Abebe Kebede', 'Kebede Abebe');
+});
+
+test('matches a name written in Ge\'ez', () => {
+  const result = matchName('Abebe Kebede', 'አበበ ከበደ', THRESHOLD);
+  assert.ok(result.matched);
+  assert.equal(result.method, 'transliterated');
+});
+
+test('matches spelling variants of a full token', () => {
+  assertMatches('Tesfaye Mohammed', 'Tesfay Mohamed');
+});
+
+test('rejects a different given name with the same surname', () => {
+  assertRejects('Abebe Kebede', 'Abel Kebede');
+  assertRejects('Abebe Kebede', 'Abeba Kebede');
+});
+
+test('rejects names made only of initials or abbreviations', () => {
+  assertRejects('Abebe Kebede', 'A K');
+  assertRejects('Abebe Kebede', 'Abe Keb');
+  // Not even when a merchant lowers its threshold
+  assert.equal(matchName('Abebe Kebede', 'A K', 0.5).matched, false);
+});
+
+test('rejects a receipt token that extends the expected one', () => {
+  assertRejects('Abebe Kebede', 'Abebe Kebedech');
+});
+
+test('rejects a missing receiver name', () => {
+  assertRejects('Abebe Kebede', null);
+});
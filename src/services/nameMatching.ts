@@ -0,0 +1,256 @@
+import { rangeEnv } from '../utils/env';
+
+// Default score a receiver name must reach to match; merchants can override it within the same range
+export const DEFAULT_NAME_MATCH_THRESHOLD = rangeEnv('NAME_MATCH_THRESHOLD', 0.85, 0.5, 1);
+
+export type NameMatchMethod = 'exact' | 'fuzzy' | 'transliterated' | 'none';
+
+export interface NameMatchResult {
+  matched: boolean;
+  /** Similarity from 0 (unrelated) to 1 (same name after normalization) */
+  score: number;
+  threshold: number;
+  method: NameMatchMethod;
+  expected: string;
+  received: string | null;
+}
+
+// Titles and company suffixes that banks add or drop
+const IGNORED_TOKENS = new Set(['mr', 'mrs', 'ms', 'dr', 'ato', 'wro', 'woizero', 'weyzero', 'plc', 'sc', 'llc', 'ltd']);
+
+// Token pairs scoring below this are treated as unrelated. Kept high so a near-miss given
+// name ("Abel" vs "Abebe", "Abeba" vs "Abebe") cannot ride on a matching surname.
+const MIN_TOKEN_SIMILARITY = 0.93;
+
+// Initials and truncated tokens ("T", "Tesf") against the full token
+const ABBREVIATION_SCORE = 0.85;
+
+// Shortest receipt token taken as a truncation of the expected token rather than another name
+const MIN_TRUNCATION_LENGTH = 3;
+
+// Transliterations that differ from the Latin spelling only in vowels ("Gebremedhn" vs "Gebremedhin")
+const TRANSLITERATION_SCORE = 0.9;
+
+// Multipliers for names with tokens in a different order, or with trailing tokens missing
+const REORDER_FACTOR = 0.95;
+const MISSING_TOKEN_FACTOR = 0.95;
+
+// Highest score when only one token of a multi-token name matched, since first names are common
+const SINGLE_TOKEN_CAP = 0.6;
+
+// How a pair of tokens matched; only exact and transliterated pairs identify a person
+type TokenMatchKind = 'exact' | 'transliterated' | 'fuzzy' | 'abbreviation';
+
+interface TokenMatch {
+  similarity: number;
+  kind: TokenMatchKind;
+}
+
+// Consonant of each Ethiopic syllable row, by the row's first code point
+const ETHIOPIC_ROWS: Record<number, string> = {
+  0x1200: 'h', 0x1208: 'l', 0x1210: 'h', 0x1218: 'm', 0x1220: 's', 0x1228: 'r', 0x1230: 's', 0x1238: 'sh',
+  0x1240: 'k', 0x1248: 'kw', 0x1250: 'k', 0x1258: 'kw', 0x1260: 'b', 0x1268: 'v', 0x1270: 't', 0x1278: 'ch',
+  0x1280: 'h', 0x1288: 'hw', 0x1290: 'n', 0x1298: 'ny', 0x12a0: '', 0x12a8: 'k', 0x12b0: 'kw', 0x12b8: 'h',
+  0x12c0: 'hw', 0x12c8: 'w', 0x12d0: '', 0x12d8: 'z', 0x12e0: 'zh', 0x12e8: 'y', 0x12f0: 'd', 0x12f8: 'd',
+  0x1300: 'j', 0x1308: 'g', 0x1310: 'gw', 0x1318: 'g', 0x1320: 't', 0x1328: 'ch', 0x1330: 'p', 0x1338: 'ts',
+  0x1340: 'ts', 0x1348: 'f', 0x1350: 'p',
+};
+
+// Vowel of each of the eight orders; the sixth order is usually unwritten in Latin spellings
+const ETHIOPIC_VOWELS = ['e', 'u', 'i', 'a', 'e', '', 'o', 'wa'];
+
+const isEthiopic = (char: string): boolean => {
+  const code = char.codePointAt(0)!;
+  return code >= 0x1200 && code <= 0x137f;
+};
+
+/**
+ * Spell Ge'ez script in Latin letters the way Ethiopian names are usually romanized,
+ * e.g. "አበበ ከበደ" -> "abebe kebede"
+ */
+export const transliterateEthiopic = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      if (!isEthiopic(char)) {
+        return char;
+      }
+      const code = char.codePointAt(0)!;
+      const row = code - (code % 8);
+      const consonant = ETHIOPIC_ROWS[row];
+      if (consonant === undefined) {
+        // Ethiopic punctuation and numerals separate words
+        return ' ';
+      }
+      const order = code % 8;
+      // Vowel carriers: አ is "a" and እ is "e" at the start of a name
+      if (consonant === '' && (order === 0 || order === 5)) {
+        return order === 0 ? 'a' : 'e';
+      }
+      return consonant + ETHIOPIC_VOWELS[order];
+    })
+    .join('');
+
+/**
+ * Lower-cased name tokens with punctuation, titles and company suffixes removed
+ */
+export const nameTokens = (name: string): string[] =>
+  transliterateEthiopic(name.normalize('NFKC'))
+    .toLowerCase()
+    .replace(/w\/ro\b/g, 'wro')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+
+// Consonants only, for comparing romanizations that disagree on vowels
+const skeleton = (token: string): string =>
+  token.replace(/q/g, 'k').replace(/[aeiouwy]/g, '').replace(/(.)\1+/g, '$1');
+
+/**
+ * Whether two Latin spellings differ only in doubled letters ("Mohammed" vs "Mohamed") or a
+ * trailing vowel that one of them drops ("Tesfaye" vs "Tesfay"). A changed vowel is not a
+ * variant, since it can change the name ("Abebe" vs "Abeba").
+ */
+const isRomanizationVariant = (a: string, b: string): boolean => {
+  const [short, long] = [a, b].map(token => token.replace(/(.)\1+/g, '$1')).sort((x, y) => x.length - y.length);
+  return short === long || (long.length === short.length + 1 && long.startsWith(short) && /[aeiou]$/.test(long));
+};
+
+/**
+ * Jaro-Winkler similarity of two strings, from 0 to 1
+ */
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Similarity of an expected token and a receipt token, or null if they should not be paired
+ */
+const tokenSimilarity = (expected: string, received: string, transliterated: boolean): TokenMatch | null => {
+  if (expected === received) return { similarity: 1, kind: 'exact' };
+  if (isRomanizationVariant(expected, received)) {
+    return { similarity: Math.max(jaroWinkler(expected, received), TRANSLITERATION_SCORE), kind: 'transliterated' };
+  }
+
+  const [short, long] = expected.length <= received.length ? [expected, received] : [received, expected];
+  if (long.startsWith(short)) {
+    // Initials may appear on either side, but only the receipt truncates names; a receipt
+    // token that extends the expected one ("Kebedech" for "Kebede") is another name
+    return short.length === 1 || (short === received && short.length >= MIN_TRUNCATION_LENGTH)
+      ? { similarity: ABBREVIATION_SCORE, kind: 'abbreviation' }
+      : null;
+  }
+
+  const similarity = jaroWinkler(expected, received);
+  if (transliterated && skeleton(expected) === skeleton(received) && similarity >= 0.7) {
+    return { similarity: Math.max(similarity, TRANSLITERATION_SCORE), kind: 'transliterated' };
+  }
+  return similarity >= MIN_TOKEN_SIMILARITY ? { similarity, kind: 'fuzzy' } : null;
+};
+
+/**
+ * Score how well a name printed on a receipt matches the expected name. Tokens are paired
+ * in any order, so reordered names, initials ("Abebe K"), truncation ("Tesf") and a dropped
+ * grandfather's name still score highly; Ge'ez names are compared through their romanization.
+ * At least one token must match in full, so initials and abbreviations alone never match.
+ */
+export const matchName = (
+  expected: string,
+  received: string | null | undefined,
+  threshold: number = DEFAULT_NAME_MATCH_THRESHOLD
+): NameMatchResult => {
+  const result = (score: number, method: NameMatchMethod, identified = true): NameMatchResult => ({
+    matched: method !== 'none' && identified && score >= threshold,
+    score: Math.round(score * 1000) / 1000,
+    threshold,
+    method,
+    expected,
+    received: received ?? null,
+  });
+
+  if (!received) {
+    return result(0, 'none');
+  }
+
+  const transliterated = Array.from(expected + received).some(isEthiopic);
+  const expectedTokens = nameTokens(expected);
+  const receivedTokens = nameTokens(received);
+  if (expectedTokens.length === 0 || receivedTokens.length === 0) {
+    return result(0, 'none');
+  }
+  if (expectedTokens.join(' ') === receivedTokens.join(' ')) {
+    return result(1, transliterated ? 'transliterated' : 'exact');
+  }
+
+  // Pair tokens greedily, most similar first
+  const pairs: ({ i: number; j: number } & TokenMatch)[] = [];
+  expectedTokens.forEach((a, i) => receivedTokens.forEach((b, j) => {
+    const match = tokenSimilarity(a, b, transliterated);
+    if (match) pairs.push({ i, j, ...match });
+  }));
+  pairs.sort((x, y) => y.similarity - x.similarity);
+
+  const usedExpected = new Set<number>();
+  const usedReceived = new Set<number>();
+  const aligned: typeof pairs = [];
+  for (const pair of pairs) {
+    if (usedExpected.has(pair.i) || usedReceived.has(pair.j)) continue;
+    usedExpected.add(pair.i);
+    usedReceived.add(pair.j);
+    aligned.push(pair);
+  }
+  if (aligned.length === 0) {
+    return result(0, 'none');
+  }
+
+  const shorter = Math.min(expectedTokens.length, receivedTokens.length);
+  const longer = Math.max(expectedTokens.length, receivedTokens.length);
+
+  // Unpaired tokens of the shorter name count as mismatches
+  let score = aligned.reduce((sum, pair) => sum + pair.similarity, 0) / shorter;
+  if (longer > shorter) {
+    score *= MISSING_TOKEN_FACTOR;
+  }
+  const inOrder = aligned
+    .slice()
+    .sort((x, y) => x.i - y.i)
+    .every((pair, index, sorted) => index === 0 || pair.j > sorted[index - 1].j);
+  if (!inOrder) {
+    score *= REORDER_FACTOR;
+  }
+  if (aligned.length === 1 && longer > 1) {
+    score = Math.min(score, SINGLE_TOKEN_CAP);
+  }
+
+  const identified = aligned.some(pair => pair.kind === 'exact' || pair.kind === 'transliterated');
+  return result(score, transliterated ? 'transliterated' : 'fuzzy', identified);
+};
@@ -0,0 +1,817 @@
+import { PaymentIntent, PaymentIntentStatus, Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { prisma } from '../utils/prisma';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { amountToMinor, formatMinor, minorToAmount, serializeAmount } from '../utils/money';
+import { positiveIntEnv } from '../utils/env';
+import { NormalizedReceipt } from '../types/receipt';
+import { getProvider, verifyWithProvider, PaymentProvider, ProviderVerification } from './providers';
+import { WebhookService } from './webhookService';
+import { IntentExpiryService } from './intentExpiryService';
+import { assertTransition, canTransition, transitionIntent, tryTransitionIntent } from './intentStateMachine';
+import { IntentEventService, IntentActor } from './intentEventService';
+import { ReceiptLedgerService } from './receiptLedgerService';
+import { IntentStream } from './intentStream';
+import { MerchantService, ReceiverCandidate } from './merchantService';
+import { DEFAULT_NAME_MATCH_THRESHOLD, matchName, NameMatchResult } from './nameMatching';
+import { checkReceiptDate, describeReceiptDateFailure, ReceiptDateResult } from './receiptDateCheck';
+import {
+  AmountMatchingPolicy,
+  AmountMatchResult,
+  compareAmounts,
+  DEFAULT_AMOUNT_POLICY,
+  matchAmount,
+  parseStoredPolicy,
+  receiptAmountFor,
+} from './amountMatching';
+
+// Default number of confirmation attempts before an intent is marked failed
+export const DEFAULT_MAX_CONFIRM_ATTEMPTS = positiveIntEnv('INTENT_MAX_CONFIRM_ATTEMPTS', 3);
+
+// How long a confirmation may hold an intent before another request can take it over.
+// Must exceed the slowest provider lookup.
+export const CONFIRM_LOCK_SECONDS = positiveIntEnv('INTENT_CONFIRM_LOCK_SECONDS', 120);
+
+// Receiver accounts a confirmation looks a reference up under, for providers that key receipts by account
+const MAX_RECEIVER_LOOKUPS = positiveIntEnv('INTENT_MAX_RECEIVER_LOOKUPS', 3);
+
+/**
+ * Render a payment intent for API responses, with amounts as JSON numbers and in minor units.
+ * The confirmation lease token is internal and left out.
+ */
+export const serializeIntent = <T extends PaymentIntent>(intent: T) => {
+  const { confirmLockId: _confirmLockId, ...rest } = intent;
+  const received = serializeAmount(intent.amountReceived);
+  return {
+    ...rest,
+    ...serializeAmount(intent.amount),
+    amountReceived: received.amount,
+    amountReceivedMinor: received.amountMinor,
+  };
+};
+
+// How long a new intent can be confirmed
+const INTENT_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+export interface CreatePaymentIntentInput {
+  amount: Prisma.Decimal;
+  merchant: string;
+  /** Canonical provider id */
+  paymentMethodType: string;
+  apiKeyId: string;
+  /** Saved account to pay into; without it or expectedReceiverAccount the provider's default is used */
+  receiverAccountId?: string | null;
+  expectedReceiverAccount?: string | null;
+  expectedReceiverName?: string | null;
+  matchAnyReceiverAccount?: boolean;
+  metadata?: Record<string, string>;
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  amountPolicy?: AmountMatchingPolicy;
+  allowPartialPayments?: boolean;
+  successUrl?: string | null;
+  cancelUrl?: string | null;
+  paymentLinkId?: string | null;
+}
+
+// Outcome of checking a receipt against an intent; details are stored in verificationDetails
+export interface ReceiptCheck {
+  error: string | null;
+  details: {
+    /** Saved or intent account the receipt was paid into */
+    receiver?: { accountId: string | null; accountNumber: string };
+    nameMatch?: NameMatchResult;
+    dateCheck?: ReceiptDateResult;
+    amountMatch?: AmountMatchResult;
+    /** Amount this receipt adds to a partial-payment intent, in minor units */
+    contributionMinor?: number;
+  };
+}
+
+export class PaymentIntentService {
+  /**
+   * Create a payment intent, record its created event and notify the merchant.
+   * A repeated idempotency key returns the intent created the first time.
+   */
+  static async create(
+    input: CreatePaymentIntentInput,
+    actor: IntentActor
+  ): Promise<{ intent: PaymentIntent; created: boolean }> {
+    if (input.idempotencyKey) {
+      const existing = await prisma.paymentIntent.findFirst({
+        where: { idempotencyKey: input.idempotencyKey },
+      });
+      if (existing) {
+        logger.info(`Returning existing intent for idempotencyKey: ${input.idempotencyKey}`);
+        return { intent: existing, created: false };
+      }
+    }
+
+    const receiver = await MerchantService.resolveReceiver(input.merchant, input.paymentMethodType, input);
+
+    const intent = await prisma.$transaction(async tx => {
+      const createdIntent = await tx.paymentIntent.create({
+        data: {
+          id: uuidv4(),
+          amount: input.amount,
+          merchant: input.merchant,
+          paymentMethodType: input.paymentMethodType,
+          metadata: input.metadata || {},
+          status: PaymentIntentStatus.pending,
+          expiresAt: new Date(Date.now() + INTENT_LIFETIME_MS),
+          idempotencyKey: input.idempotencyKey || uuidv4(),
+          apiKeyId: input.apiKeyId,
+          ...receiver,
+          matchAnyReceiverAccount: input.matchAnyReceiverAccount ?? false,
+          maxAttempts: input.maxAttempts ?? DEFAULT_MAX_CONFIRM_ATTEMPTS,
+          amountPolicy: { ...(input.amountPolicy ?? DEFAULT_AMOUNT_POLICY) },
+          allowPartialPayments: input.allowPartialPayments ?? false,
+          successUrl: input.successUrl,
+          cancelUrl: input.cancelUrl,
+          paymentLinkId: input.paymentLinkId,
+        },
+      });
+      await IntentEventService.record(tx, createdIntent.id, 'created', actor, {
+        ...serializeAmount(createdIntent.amount),
+        paymentMethodType: createdIntent.paymentMethodType,
+        ...(createdIntent.paymentLinkId && { paymentLinkId: createdIntent.paymentLinkId }),
+      });
+      return createdIntent;
+    });
+
+    logger.info(`Created payment intent ${intent.id} for merchant ${intent.merchant}`);
+
+    // Send webhook for payment intent creation
+    WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.created', {
+      id: intent.id,
+      ...serializeAmount(intent.amount),
+      merchant: intent.merchant,
+      paymentMethodType: intent.paymentMethodType,
+      status: intent.status,
+      expiresAt: intent.expiresAt,
+      createdAt: intent.createdAt,
+      paymentLinkId: intent.paymentLinkId,
+    }).catch(error => {
+      logger.error('Failed to send webhook for payment intent creation', error);
+    });
+
+    return { intent, created: true };
+  }
+
+  /**
+   * Verify a reference against an intent and settle it.
+   * Failed attempts are recorded and leave the intent confirmable until its
+   * attempt limit is reached, at which point it moves to failed. Intents that
+   * allow partial payments record the receipt as a contribution and stay
+   * partially_paid until the contributions cover the amount.
+   *
+   * Only one confirmation runs per intent at a time: the intent is leased
+   * before the provider lookup, and the result is written under a row lock
+   * while the reference is claimed, so concurrent requests get a 409 that
+   * describes the outcome that won.
+   */
+  static async confirm(intent: PaymentIntent, reference: string, actor: IntentActor): Promise<PaymentIntent> {
+    const lease = await this.leaseForConfirmation(intent, actor);
+    try {
+      return await this.confirmLocked(lease.intent, reference, actor, lease.lockId);
+    } finally {
+      await this.releaseLock(intent.id, lease.lockId).catch(error => {
+        logger.error(`Failed to release confirmation lock on payment intent ${intent.id}`, error);
+      });
+    }
+  }
+
+  /**
+   * Lease an intent and move it to processing so its confirmation can run in
+   * the background. The lease stays held until completeConfirmation() runs.
+   */
+  static async beginConfirmation(
+    intent: PaymentIntent,
+    reference: string,
+    actor: IntentActor
+  ): Promise<{ intent: PaymentIntent; lockId: string }> {
+    const lease = await this.leaseForConfirmation(intent, actor);
+    try {
+      this.assertConfirmable(lease.intent);
+      await ReceiptLedgerService.assertNotConsumed(intent.paymentMethodType, reference, intent.merchant);
+
+      const processingIntent = await prisma.$transaction(async tx => {
+        const updated = await transitionIntent(tx, lease.intent, PaymentIntentStatus.processing, {
+          processingReference: reference,
+        });
+        await IntentEventService.record(tx, intent.id, 'confirm_queued', actor, { reference });
+        return updated;
+      });
+
+      IntentStream.publish(processingIntent);
+      return { intent: processingIntent, lockId: lease.lockId };
+    } catch (error) {
+      await this.releaseLock(intent.id, lease.lockId).catch(releaseError => {
+        logger.error(`Failed to release confirmation lock on payment intent ${intent.id}`, releaseError);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finish a confirmation started with beginConfirmation(). Errors are not
+   * rethrown: the intent is moved out of processing with the error in its
+   * verificationDetails, and the resulting intent is returned.
+   */
+  static async completeConfirmation(
+    intentId: string,
+    reference: string,
+    actor: IntentActor,
+    lockId: string
+  ): Promise<PaymentIntent | null> {
+    try {
+      const intent = await prisma.paymentIntent.findUnique({ where: { id: intentId } });
+      if (!intent) {
+        return null;
+      }
+      return await this.confirmLocked(intent, reference, actor, lockId);
+    } catch (error) {
+      logger.warn(`Background confirmation of payment intent ${intentId} failed`, error);
+      return this.abandonProcessing(intentId, lockId, error instanceof Error ? error.message : String(error));
+    } finally {
+      await this.releaseLock(intentId, lockId).catch(error => {
+        logger.error(`Failed to release confirmation lock on payment intent ${intentId}`, error);
+      });
+    }
+  }
+
+  /**
+   * Take over an intent left in processing by a confirmation whose lease lapsed
+   * @returns The new lease id, or null if the intent is still leased or no longer processing
+   */
+  static async reclaimProcessing(intent: PaymentIntent): Promise<string | null> {
+    const lockId = crypto.randomUUID();
+    try {
+      const locked = await this.acquireLock(intent, lockId);
+      if (locked.status !== PaymentIntentStatus.processing) {
+        await this.releaseLock(intent.id, lockId);
+        return null;
+      }
+      return lockId;
+    } catch (error) {
+      if (error instanceof AppError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check an intent can still be confirmed and lease it for this confirmation
+   */
+  private static async leaseForConfirmation(
+    intent: PaymentIntent,
+    actor: IntentActor
+  ): Promise<{ intent: PaymentIntent; lockId: string }> {
+    if (intent.status === PaymentIntentStatus.succeeded) {
+      throw this.alreadyConfirmedError(intent);
+    }
+
+    if (intent.expiresAt < new Date()) {
+      // Intents already closed, or held by a running confirmation, are left as they are
+      if (canTransition(intent.status, PaymentIntentStatus.expired)) {
+        await IntentExpiryService.expireIntent(intent, actor);
+      }
+      throw new AppError('Payment intent has expired', ErrorType.VALIDATION, 400);
+    }
+
+    const lockId = crypto.randomUUID();
+    return { intent: await this.acquireLock(intent, lockId), lockId };
+  }
+
+  /**
+   * Throw if the intent is already settled or out of attempts
+   */
+  private static assertConfirmable(intent: PaymentIntent): void {
+    if (intent.status === PaymentIntentStatus.succeeded) {
+      throw this.alreadyConfirmedError(intent);
+    }
+
+    if (intent.attemptCount >= intent.maxAttempts) {
+      throw new AppError(
+        `Payment intent has reached its limit of ${intent.maxAttempts} confirmation attempts`,
+        ErrorType.CONFLICT,
+        409,
+        { attemptCount: intent.attemptCount, maxAttempts: intent.maxAttempts },
+        'attempt_limit_reached'
+      );
+    }
+  }
+
+  /**
+   * Status an intent returns to when it can take another reference
+   */
+  private static resumeStatus(intent: PaymentIntent): PaymentIntentStatus {
+    return new Prisma.Decimal(intent.amountReceived).greaterThan(0)
+      ? PaymentIntentStatus.partially_paid
+      : PaymentIntentStatus.pending;
+  }
+
+  /**
+   * Confirm an intent this request holds the lease on
+   */
+  private static async confirmLocked(
+    intent: PaymentIntent,
+    reference: string,
+    actor: IntentActor,
+    lockId: string
+  ): Promise<PaymentIntent> {
+    this.assertConfirmable(intent);
+
+    // A previously failed intent is moved back and retried with the new reference
+    if (intent.status === PaymentIntentStatus.failed) {
+      intent = await transitionIntent(prisma, intent, this.resumeStatus(intent));
+    }
+    assertTransition(intent.status, PaymentIntentStatus.succeeded);
+
+    // Check if the reference has already been claimed, by any merchant or endpoint
+    await ReceiptLedgerService.assertNotConsumed(intent.paymentMethodType, reference, intent.merchant);
+
+    const provider = getProvider(intent.paymentMethodType);
+    if (!provider) {
+      throw new AppError('Unsupported payment method', ErrorType.VALIDATION, 400);
+    }
+
+    const receivers = await MerchantService.receiverCandidates(intent);
+    const verification = await this.lookupReceipt(provider, reference, receivers, intent.id, lockId);
+
+    // Without a receipt the customer has nothing to correct: outages, open circuits and
+    // timeouts are retryable and do not use up an attempt
+    const receipt = verification.receipt;
+    if (!verification.raw || !receipt) {
+      throw new AppError(
+        `Could not retrieve the receipt from ${provider.displayName}, please try again`,
+        ErrorType.INTERNAL,
+        503,
+        { provider: provider.id, error: verification.error ?? null },
+        'receipt_lookup_failed'
+      );
+    }
+
+    const check: ReceiptCheck = verification.success
+      ? this.checkReceipt(intent, receipt, receivers, await MerchantService.nameMatchThreshold(intent.merchant))
+      : { error: verification.error || `${provider.displayName} verification failed`, details: {} };
+
+    if (check.error) {
+      return this.recordFailedAttempt(intent, reference, verification, check, actor, lockId);
+    }
+
+    const amountMatch = check.details.amountMatch!;
+    const settled = amountMatch.matched;
+    const contributionMinor = check.details.contributionMinor;
+
+    const updatedIntent = await prisma.$transaction(async tx => {
+      const current = await this.lockForUpdate(tx, intent.id, lockId);
+
+      const attempt = await tx.paymentIntentAttempt.create({
+        data: {
+          paymentIntentId: intent.id,
+          reference,
+          succeeded: true,
+          providerResult: this.toProviderResult(verification),
+        },
+      });
+      await IntentEventService.record(tx, intent.id, 'confirm_attempted', actor, {
+        attemptId: attempt.id,
+        reference,
+        succeeded: true,
+      });
+
+      await ReceiptLedgerService.consume(tx, {
+        provider: receipt.provider,
+        reference,
+        source: 'payment_intent',
+        merchant: intent.merchant,
+        apiKeyId: intent.apiKeyId,
+        paymentIntentId: intent.id,
+        amount: minorToAmount(receipt.totalAmount),
+      });
+
+      if (contributionMinor !== undefined) {
+        const contribution = await tx.paymentContribution.create({
+          data: {
+            paymentIntentId: intent.id,
+            provider: receipt.provider,
+            reference,
+            amount: minorToAmount(contributionMinor),
+            receipt: receipt as unknown as Prisma.InputJsonValue,
+          },
+        });
+        await IntentEventService.record(tx, intent.id, 'contribution_added', actor, {
+          contributionId: contribution.id,
+          reference,
+          amountMinor: contributionMinor,
+          amountReceivedMinor: amountMatch.receivedMinor,
+        });
+      }
+
+      const data: Prisma.PaymentIntentUpdateManyMutationInput = {
+        verificationDetails: { receipt, ...check.details } as unknown as Prisma.InputJsonValue,
+        ...(contributionMinor !== undefined
+          ? { amountReceived: { increment: minorToAmount(contributionMinor) } }
+          : { reference }),
+        ...(settled && { confirmedAt: new Date() }),
+        processingReference: null,
+        confirmLockId: null,
+        confirmLockedUntil: null,
+      };
+      const nextStatus = settled ? PaymentIntentStatus.succeeded : PaymentIntentStatus.partially_paid;
+      const confirmedIntent = nextStatus === current.status
+        ? await tx.paymentIntent.update({ where: { id: intent.id }, data })
+        : await transitionIntent(tx, current, nextStatus, data);
+
+      await IntentEventService.record(tx, intent.id, 'verified', actor, {
+        reference,
+        provider: receipt.provider,
+        amountMinor: receipt.totalAmount,
+      });
+
+      return confirmedIntent;
+    });
+
+    logger.info(`Confirmed payment intent ${intent.id} with status ${updatedIntent.status}`);
+    IntentStream.publish(updatedIntent);
+
+    if (contributionMinor !== undefined) {
+      // Send webhook for every verified contribution
+      WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.partially_paid', {
+        id: updatedIntent.id,
+        ...serializeAmount(updatedIntent.amount),
+        amountReceived: serializeAmount(updatedIntent.amountReceived).amount,
+        merchant: updatedIntent.merchant,
+        paymentMethodType: updatedIntent.paymentMethodType,
+        status: updatedIntent.status,
+        contribution: {
+          reference,
+          ...serializeAmount(minorToAmount(contributionMinor)),
+        },
+      }).catch(error => {
+        logger.error('Failed to send webhook for payment intent contribution', error);
+      });
+    }
+
+    if (settled) {
+      // Send webhook for payment intent confirmation
+      WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.confirmed', {
+        id: updatedIntent.id,
+        ...serializeAmount(updatedIntent.amount),
+        merchant: updatedIntent.merchant,
+        paymentMethodType: updatedIntent.paymentMethodType,
+        status: updatedIntent.status,
+        reference: updatedIntent.reference,
+        confirmedAt: updatedIntent.confirmedAt,
+        verificationDetails: updatedIntent.verificationDetails,
+      }).catch(error => {
+        logger.error('Failed to send webhook for payment intent confirmation', error);
+      });
+    }
+
+    return updatedIntent;
+  }
+
+  /**
+   * Look a reference up with the provider. Providers that key receipts by the receiver
+   * account are asked once per candidate account, up to MAX_RECEIVER_LOOKUPS, until one
+   * has a completed receipt. The lease is renewed before each further lookup.
+   */
+  private static async lookupReceipt(
+    provider: PaymentProvider,
+    reference: string,
+    receivers: ReceiverCandidate[],
+    intentId: string,
+    lockId: string
+  ): Promise<ProviderVerification> {
+    const accounts = provider.requiresAccountSuffix ? receivers.slice(0, MAX_RECEIVER_LOOKUPS) : receivers.slice(0, 1);
+    if (provider.requiresAccountSuffix && receivers.length > MAX_RECEIVER_LOOKUPS) {
+      logger.warn(`Looking up ${reference} under ${accounts.length} of ${receivers.length} receiver accounts of payment intent ${intentId}`);
+    }
+
+    let verification!: ProviderVerification;
+    for (const [index, receiver] of accounts.entries()) {
+      if (index > 0) {
+        await this.renewLock(intentId, lockId);
+      }
+      verification = await verifyWithProvider(provider, reference, { receiverAccount: receiver.accountNumber });
+      if (verification.success) break;
+    }
+    return verification;
+  }
+
+  /**
+   * Check a verified receipt against what the intent expects
+   * @param receivers Accounts the receipt may be paid into, from MerchantService.receiverCandidates
+   * @param nameThreshold Receiver name score needed to match
+   * @returns The failure reason (null if the receipt satisfies the intent) and the results of each check
+   */
+  static checkReceipt(
+    intent: PaymentIntent,
+    receipt: NormalizedReceipt,
+    receivers: ReceiverCandidate[],
+    nameThreshold: number = DEFAULT_NAME_MATCH_THRESHOLD
+  ): ReceiptCheck {
+    // Verify the last 4 digits of the account, then score the receiver name against
+    // every name of the accounts that fit and keep the best
+    let best: { receiver: ReceiverCandidate; nameMatch: NameMatchResult } | null = null;
+    for (const candidate of receivers) {
+      if (!receipt.receiverAccount?.endsWith(candidate.accountNumber.slice(-4))) continue;
+      for (const name of candidate.names) {
+        const nameMatch = matchName(name, receipt.receiverName, nameThreshold);
+        if (!best || nameMatch.score > best.nameMatch.score) {
+          best = { receiver: candidate, nameMatch };
+        }
+      }
+    }
+
+    if (!best?.nameMatch.matched) {
+      logger.debug('Receiver mismatch', {
+        receiverName: receipt.receiverName,
+        receiverAccount: receipt.receiverAccount,
+        expected: receivers.map(candidate => ({ account: candidate.accountNumber, names: candidate.names })),
+        nameScore: best?.nameMatch.score ?? null,
+      });
+      return {
+        error: 'Receiver verification failed - name or account mismatch',
+        details: best ? { nameMatch: best.nameMatch } : {},
+      };
+    }
+    const { receiver, nameMatch } = best;
+    const matchedReceiver = { accountId: receiver.accountId, accountNumber: receiver.accountNumber };
+
+    // Reject receipts paid before the intent existed, such as an old receipt for the same amount
+    const dateCheck = checkReceiptDate(receipt, intent.createdAt);
+    // Every outcome from here on carries the receiver and date checks, so merchants can see why it failed
+    const checked = { receiver: matchedReceiver, nameMatch, dateCheck };
+    if (!dateCheck.matched) {
+      return { error: describeReceiptDateFailure(dateCheck), details: checked };
+    }
+
+    const policy = parseStoredPolicy(intent.amountPolicy);
+    const expectedMinor = amountToMinor(intent.amount);
+
+    // Partial payments add the receipt to what was already received; falling short is not an error
+    if (intent.allowPartialPayments) {
+      const contributionMinor = receiptAmountFor(receipt, policy);
+      if (contributionMinor <= 0) {
+        return { error: 'Receipt amount must be greater than zero', details: { ...checked, contributionMinor } };
+      }
+
+      const amountMatch = compareAmounts(expectedMinor, amountToMinor(intent.amountReceived) + contributionMinor, policy);
+      if (amountMatch.outcome === 'overpaid' && !amountMatch.matched) {
+        return {
+          error: `Overpayment: expected ${formatMinor(amountMatch.expectedMinor)}, got ${formatMinor(amountMatch.receivedMinor)} in total (${amountMatch.basis} amount)`,
+          details: { ...checked, amountMatch, contributionMinor },
+        };
+      }
+      return { error: null, details: { ...checked, amountMatch, contributionMinor } };
+    }
+
+    // Verify amount under the intent's matching policy, in integer santim
+    const amountMatch = matchAmount(expectedMinor, receipt, policy);
+    if (!amountMatch.matched) {
+      const label = amountMatch.outcome === 'overpaid' ? 'Overpayment' : 'Amount mismatch';
+      return {
+        error: `${label}: expected ${formatMinor(amountMatch.expectedMinor)}, got ${formatMinor(amountMatch.receivedMinor)} (${amountMatch.basis} amount)`,
+        details: { ...checked, amountMatch },
+      };
+    }
+
+    return { error: null, details: { ...checked, amountMatch } };
+  }
+
+  /**
+   * Record a failed attempt, fail the intent if it has no attempts left, and throw the verification error
+   */
+  private static async recordFailedAttempt(
+    intent: PaymentIntent,
+    reference: string,
+    verification: ProviderVerification,
+    check: ReceiptCheck,
+    actor: IntentActor,
+    lockId: string
+  ): Promise<never> {
+    const verificationError = check.error || 'Verification failed';
+    const attemptCount = intent.attemptCount + 1;
+    const exhausted = attemptCount >= intent.maxAttempts;
+
+    const updatedIntent = await prisma.$transaction(async tx => {
+      const current = await this.lockForUpdate(tx, intent.id, lockId);
+
+      const attempt = await tx.paymentIntentAttempt.create({
+        data: {
+          paymentIntentId: intent.id,
+          reference,
+          succeeded: false,
+          failureReason: verificationError,
+          providerResult: this.toProviderResult(verification),
+        },
+      });
+      await IntentEventService.record(tx, intent.id, 'confirm_attempted', actor, {
+        attemptId: attempt.id,
+        reference,
+        succeeded: false,
+        failureReason: verificationError,
+      });
+
+      const data = {
+        attemptCount: { increment: 1 },
+        verificationDetails: { error: verificationError, ...check.details } as unknown as Prisma.InputJsonValue,
+        processingReference: null,
+        confirmLockId: null,
+        confirmLockedUntil: null,
+      };
+
+      if (!exhausted) {
+        // A background confirmation hands the intent back so it can take another reference
+        return current.status === PaymentIntentStatus.processing
+          ? transitionIntent(tx, current, this.resumeStatus(current), data)
+          : tx.paymentIntent.update({ where: { id: intent.id }, data });
+      }
+
+      const failedIntent = await transitionIntent(tx, current, PaymentIntentStatus.failed, data);
+      await IntentEventService.record(tx, intent.id, 'failed', actor, {
+        error: verificationError,
+        attemptCount,
+      });
+      return failedIntent;
+    });
+
+    IntentStream.publish(updatedIntent);
+
+    if (!exhausted) {
+      const remaining = intent.maxAttempts - attemptCount;
+      throw new AppError(
+        `${verificationError} (${remaining} attempt${remaining === 1 ? '' : 's'} remaining)`,
+        ErrorType.VALIDATION,
+        400,
+        { attemptCount, maxAttempts: intent.maxAttempts },
+        'verification_failed'
+      );
+    }
+
+    // Send webhook for payment intent failure
+    WebhookService.sendWebhookToMerchant(intent.merchant, 'payment_intent.failed', {
+      id: updatedIntent.id,
+      ...serializeAmount(updatedIntent.amount),
+      merchant: updatedIntent.merchant,
+      paymentMethodType: updatedIntent.paymentMethodType,
+      status: updatedIntent.status,
+      error: verificationError,
+      verificationDetails: updatedIntent.verificationDetails,
+    }).catch(error => {
+      logger.error('Failed to send webhook for payment intent failure', error);
+    });
+
+    throw new AppError(verificationError, ErrorType.VALIDATION, 400, { attemptCount, maxAttempts: intent.maxAttempts }, 'verification_failed');
+  }
+
+  /**
+   * Lease an intent for a confirmation. Fails with a conflict when another
+   * confirmation holds an unexpired lease.
+   * @returns The intent as read after the lease was taken
+   */
+  private static async acquireLock(intent: PaymentIntent, lockId: string): Promise<PaymentIntent> {
+    const now = new Date();
+    const { count } = await prisma.paymentIntent.updateMany({
+      where: {
+        id: intent.id,
+        OR: [{ confirmLockedUntil: null }, { confirmLockedUntil: { lt: now } }],
+      },
+      data: {
+        confirmLockId: lockId,
+        confirmLockedUntil: new Date(now.getTime() + CONFIRM_LOCK_SECONDS * 1000),
+      },
+    });
+
+    const current = await prisma.paymentIntent.findUnique({ where: { id: intent.id } });
+    if (!current) {
+      throw new AppError('Payment intent not found', ErrorType.NOT_FOUND, 404);
+    }
+    if (count === 0) {
+      // The other confirmation may have finished between the update and the read
+      if (current.status === PaymentIntentStatus.succeeded) {
+        throw this.alreadyConfirmedError(current);
+      }
+      throw new AppError(
+        'Another confirmation for this payment intent is in progress',
+        ErrorType.CONFLICT,
+        409,
+        { status: current.status, lockedUntil: current.confirmLockedUntil },
+        'confirmation_in_progress'
+      );
+    }
+    return current;
+  }
+
+  /**
+   * Extend a lease this request still holds by another CONFIRM_LOCK_SECONDS
+   */
+  private static async renewLock(intentId: string, lockId: string): Promise<void> {
+    const { count } = await prisma.paymentIntent.updateMany({
+      where: { id: intentId, confirmLockId: lockId },
+      data: { confirmLockedUntil: new Date(Date.now() + CONFIRM_LOCK_SECONDS * 1000) },
+    });
+    if (count === 0) {
+      throw new AppError(
+        'Confirmation lease expired before the receipt could be looked up',
+        ErrorType.CONFLICT,
+        409,
+        undefined,
+        'intent_state_changed'
+      );
+    }
+  }
+
+  /**
+   * Lock the intent row for the rest of the transaction and check the lease is still ours
+   */
+  private static async lockForUpdate(
+    tx: Prisma.TransactionClient,
+    intentId: string,
+    lockId: string
+  ): Promise<PaymentIntent> {
+    await tx.$queryRaw`SELECT "id" FROM "PaymentIntent" WHERE "id" = ${intentId} FOR UPDATE`;
+    const current = await tx.paymentIntent.findUniqueOrThrow({ where: { id: intentId } });
+    if (current.confirmLockId !== lockId) {
+      throw new AppError(
+        'Confirmation lease expired before the result could be saved',
+        ErrorType.CONFLICT,
+        409,
+        { status: current.status },
+        'intent_state_changed'
+      );
+    }
+    return current;
+  }
+
+  /**
+   * Release a lease if this request still holds it
+   */
+  private static async releaseLock(intentId: string, lockId: string): Promise<void> {
+    await prisma.paymentIntent.updateMany({
+      where: { id: intentId, confirmLockId: lockId },
+      data: { confirmLockId: null, confirmLockedUntil: null },
+    });
+  }
+
+  /**
+   * Move an intent whose background confirmation failed before recording an
+   * attempt out of processing, if this lease still holds it
+   */
+  private static async abandonProcessing(intentId: string, lockId: string, error: string): Promise<PaymentIntent | null> {
+    const intent = await prisma.paymentIntent.findUnique({ where: { id: intentId } });
+    if (!intent || intent.status !== PaymentIntentStatus.processing) {
+      return intent;
+    }
+
+    const resumed = await tryTransitionIntent(
+      prisma,
+      intent,
+      this.resumeStatus(intent),
+      {
+        processingReference: null,
+        verificationDetails: { error } as Prisma.InputJsonValue,
+        confirmLockId: null,
+        confirmLockedUntil: null,
+      },
+      { confirmLockId: lockId }
+    );
+    if (!resumed) {
+      return intent;
+    }
+
+    IntentStream.publish(resumed);
+    return resumed;
+  }
+
+  /**
+   * Conflict for a confirmation that lost to one that already settled the intent
+   */
+  private static alreadyConfirmedError(intent: PaymentIntent): AppError {
+    return new AppError(
+      'Payment intent has already been confirmed',
+      ErrorType.CONFLICT,
+      409,
+      { status: intent.status, reference: intent.reference, confirmedAt: intent.confirmedAt },
+      'intent_already_confirmed'
+    );
+  }
+
+  /**
+   * Provider outcome as stored on an attempt
+   */
+  private static toProviderResult(verification: ProviderVerification): Prisma.InputJsonValue {
+    return {
+      provider: verification.provider,
+      success: verification.success,
+      error: verification.error ?? null,
+      receipt: verification.receipt ?? null,
+    } as unknown as Prisma.InputJsonValue;
+  }
+}
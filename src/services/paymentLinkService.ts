@@ -0,0 +1,154 @@
+import { PaymentIntent, PaymentIntentStatus, PaymentLink, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { formatMinor, amountToMinor, serializeAmount } from '../utils/money';
+import { PaymentIntentService } from './paymentIntentService';
+import { IntentActor } from './intentEventService';
+
+export interface PaymentLinkStats {
+  visits: number;
+  intentsCreated: number;
+  succeeded: number;
+}
+
+// What a customer chose on a payment link's page
+export interface PaymentLinkSelection {
+  paymentMethodType: string;
+  /** Required when the link has no fixed amount */
+  amount?: Prisma.Decimal;
+}
+
+const optionalAmount = (value: Prisma.Decimal | null): number | null =>
+  value === null ? null : serializeAmount(value).amount;
+
+/**
+ * Render a payment link for API responses, with its public URL and stats
+ */
+export const serializePaymentLink = (link: PaymentLink, stats: PaymentLinkStats, baseUrl: string) => {
+  const { visitCount: _visitCount, ...rest } = link;
+  return {
+    ...rest,
+    amount: optionalAmount(link.amount),
+    amountMinor: link.amount === null ? null : amountToMinor(link.amount),
+    minAmount: optionalAmount(link.minAmount),
+    maxAmount: optionalAmount(link.maxAmount),
+    url: `${baseUrl}/pay/${link.id}`,
+    stats,
+  };
+};
+
+export class PaymentLinkService {
+  /**
+   * Intent counts for links, keyed by link id
+   */
+  static async stats(links: PaymentLink[]): Promise<Map<string, PaymentLinkStats>> {
+    const counts = links.length
+      ? await prisma.paymentIntent.groupBy({
+        by: ['paymentLinkId', 'status'],
+        where: { paymentLinkId: { in: links.map(link => link.id) } },
+        _count: { _all: true },
+      })
+      : [];
+
+    const stats = new Map<string, PaymentLinkStats>(
+      links.map(link => [link.id, { visits: link.visitCount, intentsCreated: 0, succeeded: 0 }])
+    );
+    for (const row of counts) {
+      const entry = stats.get(row.paymentLinkId!);
+      if (!entry) continue;
+      entry.intentsCreated += row._count._all;
+      if (row.status === PaymentIntentStatus.succeeded) {
+        entry.succeeded += row._count._all;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Stats for a single link
+   */
+  static async statsFor(link: PaymentLink): Promise<PaymentLinkStats> {
+    return (await this.stats([link])).get(link.id)!;
+  }
+
+  /**
+   * Why a link cannot take new payments, or null if it can
+   */
+  static unavailableReason(link: PaymentLink, stats: PaymentLinkStats): string | null {
+    if (!link.isActive) {
+      return 'Payment link is inactive';
+    }
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      return 'Payment link has expired';
+    }
+    if (link.maxUses !== null && stats.succeeded >= link.maxUses) {
+      return 'Payment link has reached its maximum number of payments';
+    }
+    return null;
+  }
+
+  /**
+   * Count a visit to a link's public page
+   */
+  static async recordVisit(linkId: string): Promise<void> {
+    await prisma.paymentLink.update({
+      where: { id: linkId },
+      data: { visitCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Create a payment intent for one customer of a link, through the same path as POST /intents
+   */
+  static async createIntent(link: PaymentLink, selection: PaymentLinkSelection, actor: IntentActor): Promise<PaymentIntent> {
+    const reason = this.unavailableReason(link, await this.statsFor(link));
+    if (reason) {
+      throw new AppError(reason, ErrorType.CONFLICT, 409, { paymentLinkId: link.id }, 'payment_link_unavailable');
+    }
+
+    if (!link.paymentMethodTypes.includes(selection.paymentMethodType)) {
+      throw new AppError(
+        `Payment method must be one of: ${link.paymentMethodTypes.join(', ')}`,
+        ErrorType.VALIDATION,
+        400
+      );
+    }
+
+    const { intent } = await PaymentIntentService.create(
+      {
+        amount: this.resolveAmount(link, selection.amount),
+        merchant: link.merchant,
+        paymentMethodType: selection.paymentMethodType,
+        apiKeyId: link.apiKeyId,
+        expectedReceiverAccount: link.expectedReceiverAccount,
+        expectedReceiverName: link.expectedReceiverName,
+        metadata: (link.metadata as Record<string, string> | null) ?? undefined,
+        successUrl: link.successUrl,
+        cancelUrl: link.cancelUrl,
+        paymentLinkId: link.id,
+      },
+      actor
+    );
+    return intent;
+  }
+
+  /**
+   * The link's fixed amount, or the customer's amount checked against the link's bounds
+   */
+  private static resolveAmount(link: PaymentLink, requested?: Prisma.Decimal): Prisma.Decimal {
+    if (link.amount !== null) {
+      return link.amount;
+    }
+
+    if (!requested || requested.lessThanOrEqualTo(0)) {
+      throw new AppError('Amount is required and must be greater than zero', ErrorType.VALIDATION, 400);
+    }
+    if (link.minAmount !== null && requested.lessThan(link.minAmount)) {
+      throw new AppError(`Amount must be at least ${formatMinor(amountToMinor(link.minAmount))}`, ErrorType.VALIDATION, 400);
+    }
+    if (link.maxAmount !== null && requested.greaterThan(link.maxAmount)) {
+      throw new AppError(`Amount must be at most ${formatMinor(amountToMinor(link.maxAmount))}`, ErrorType.VALIDATION, 400);
+    }
+    return requested;
+  }
+}
@@ -0,0 +1,49 @@
+import { verifyCBE, normalizeCBEReceipt, parseCBEReceipt, VerifyResult } from '../verifyCBE';
+import { PaymentProvider, ProviderLookupOptions } from './paymentProvider';
+
+// CBE receipts are keyed by reference + the last 8 digits of the receiver account
+const accountSuffixFor = (options: ProviderLookupOptions): string | undefined =>
+    options.accountSuffix || options.receiverAccount?.slice(-8);
+
+export const cbeProvider: PaymentProvider<VerifyResult> = {
+    id: 'CBE',
+    displayName: 'CBE',
+    verifyPath: '/verify-cbe',
+    requiresAccountSuffix: true,
+    documentFormat: 'pdf',
+
+    async fetchReceipt(reference, options = {}) {
+        const accountSuffix = accountSuffixFor(options);
+        if (!accountSuffix) {
+            return { success: false, error: 'Account suffix is required for CBE verification' };
+        }
+        return verifyCBE(reference, accountSuffix);
+    },
+
+    async parseDocument(document) {
+        const result = await parseCBEReceipt(document);
+        return result.success ? result : null;
+    },
+
+    cacheKeySuffix(options) {
+        return accountSuffixFor(options) ?? '';
+    },
+
+    isFinal(raw) {
+        return raw.success;
+    },
+
+    fromJSON(json) {
+        // Dates are stored as ISO strings
+        const stored = json as Omit<VerifyResult, 'date'> & { date?: string };
+        return { ...stored, date: stored.date ? new Date(stored.date) : undefined };
+    },
+
+    normalize(raw) {
+        return normalizeCBEReceipt(raw);
+    },
+
+    getFailureReason(raw) {
+        return raw.success ? null : 'CBE verification failed';
+    },
+};
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { PaymentProvider, ProviderLookupOptions, ProviderVerification, ReceiptDocumentFormat } from './paymentProvider';
+import { cbeProvider } from './cbeProvider';
+import { telebirrProvider } from './telebirrProvider';
+import { VerificationCache } from '../verificationCache';
+
+export * from './paymentProvider';
+
+// Registered providers, keyed by lower-cased id so lookups are case-insensitive
+const providers = new Map<string, PaymentProvider<unknown>>();
+
+/**
+ * Registers a payment provider, replacing any provider with the same id
+ */
+export function registerProvider(provider: PaymentProvider<unknown>): void {
+    providers.set(provider.id.toLowerCase(), provider);
+}
+
+/**
+ * Looks up a provider by id (case-insensitive, so 'cbe' resolves to 'CBE')
+ */
+export function getProvider(id: string): PaymentProvider<unknown> | undefined {
+    return providers.get(id.toLowerCase());
+}
+
+/**
+ * Looks up the provider that issues receipt documents in a format
+ */
+export function getProviderForDocument(format: ReceiptDocumentFormat): PaymentProvider<unknown> | undefined {
+    return Array.from(providers.values()).find(provider => provider.documentFormat === format && provider.parseDocument);
+}
+
+/**
+ * Canonical ids of all registered providers
+ */
+export function listProviderIds(): string[] {
+    return Array.from(providers.values()).map(provider => provider.id);
+}
+
+/**
+ * Fetches a receipt through a provider, via the verification cache, and reports whether it
+ * represents a completed payment
+ */
+export async function verifyWithProvider<TRaw>(
+    provider: PaymentProvider<TRaw>,
+    reference: string,
+    options?: ProviderLookupOptions
+): Promise<ProviderVerification<TRaw>> {
+    const { raw, cache } = await VerificationCache.fetch(provider, reference, options);
+    if (!raw) {
+        logger.warn(`${provider.displayName} returned no receipt for reference: ${reference}`);
+        return { success: false, provider: provider.id, reference, raw: null, error: 'Verification failed', cache };
+    }
+
+    const failureReason = provider.getFailureReason(raw);
+    return {
+        success: !failureReason,
+        provider: provider.id,
+        reference,
+        receipt: provider.normalize(raw) ?? undefined,
+        raw,
+        ...(failureReason && { error: failureReason }),
+        cache,
+    };
+}
+
+registerProvider(cbeProvider);
+registerProvider(telebirrProvider);
+
+/**
+ * Schema for a payment method chosen by an API client, resolved to the provider's canonical id.
+ * Defined after registration so the error message lists the built-in providers.
+ */
+export const paymentMethodTypeSchema = z
+    .string()
+    .refine(value => Boolean(getProvider(value)), { message: `Must be one of: ${listProviderIds().join(', ')}` })
+    .transform(value => getProvider(value)!.id);
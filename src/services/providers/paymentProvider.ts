@@ -0,0 +1,101 @@
+import { NormalizedReceipt } from '../../types/receipt';
+
+/**
+ * Options passed to a provider when looking up a receipt
+ */
+export interface ProviderLookupOptions {
+    /** Full receiver account number; providers that key receipts by a suffix derive it from this */
+    receiverAccount?: string;
+    /** Explicit account suffix supplied by the caller (takes precedence over receiverAccount) */
+    accountSuffix?: string;
+    /** Fetch from the provider even if the verification cache holds the receipt */
+    skipCache?: boolean;
+}
+
+/**
+ * Outcome of verifying a reference through a provider
+ */
+export interface ProviderVerification<TRaw = unknown> {
+    success: boolean;
+    provider: string;
+    reference: string;
+    receipt?: NormalizedReceipt<TRaw>;
+    raw: TRaw | null;
+    error?: string;
+    /** Whether the receipt came from the verification cache */
+    cache?: VerificationCacheStatus;
+}
+
+/**
+ * How the verification cache served a lookup
+ */
+export interface VerificationCacheStatus {
+    /** hit: served from the cache; miss: fetched and stored; bypass: fetched because the caller skipped the cache */
+    status: 'hit' | 'miss' | 'bypass';
+    store: string;
+    /** Seconds until the stored receipt expires */
+    ttl: number;
+    storedAt: string;
+}
+
+/**
+ * File format of a receipt saved from a provider's receipt page
+ */
+export type ReceiptDocumentFormat = 'pdf' | 'html';
+
+/**
+ * A payment provider (bank or wallet) that receipts can be verified against.
+ * Adding a new bank means implementing this interface and registering it.
+ */
+export interface PaymentProvider<TRaw = unknown> {
+    /** Canonical identifier, stored as PaymentIntent.paymentMethodType */
+    id: string;
+    displayName: string;
+    /** Standalone verification endpoint for this provider */
+    verifyPath: string;
+    /** Whether lookups need the receiver account suffix in addition to the reference */
+    requiresAccountSuffix: boolean;
+    /** Format of the receipt document the provider issues, when uploaded copies can be parsed */
+    documentFormat?: ReceiptDocumentFormat;
+
+    /**
+     * Fetches the provider's receipt for a reference
+     * @returns The provider-specific payload, or null if nothing could be retrieved
+     */
+    fetchReceipt(reference: string, options?: ProviderLookupOptions): Promise<TRaw | null>;
+
+    /**
+     * Parses a receipt document saved from the provider, without contacting it
+     * @returns The provider-specific payload, or null if the document is not a readable receipt
+     */
+    parseDocument?(document: Buffer): Promise<TRaw | null>;
+
+    /**
+     * Lookup options that select a different receipt for the same reference, appended to the
+     * verification cache key
+     */
+    cacheKeySuffix?(options: ProviderLookupOptions): string;
+
+    /**
+     * Whether a retrieved receipt can no longer change, so it is cached for the long TTL.
+     * Defaults to receipts that have no failure reason.
+     */
+    isFinal?(raw: TRaw): boolean;
+
+    /**
+     * Rebuilds the provider payload from its JSON form, for payloads with non-JSON values
+     */
+    fromJSON?(json: unknown): TRaw;
+
+    /**
+     * Maps the provider-specific payload onto the canonical receipt shape
+     * @returns The normalized receipt, or null if the payload carries no receipt data
+     */
+    normalize(raw: TRaw): NormalizedReceipt<TRaw> | null;
+
+    /**
+     * Reports why a retrieved receipt does not represent a completed payment
+     * @returns A failure reason, or null if the payment completed
+     */
+    getFailureReason(raw: TRaw): string | null;
+}
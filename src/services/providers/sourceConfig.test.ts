@@ -0,0 +1,90 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SourceHealthService } from '../sourceHealthService';
+import { loadProviderSources, sourceUrl } from './sourceConfig';
+
+afterEach(() => {
+    delete process.env.PROVIDER_SOURCES;
+    delete process.env.PROVIDER_SOURCES_FILE;
+    delete process.env.SKIP_PRIMARY_VERIFICATION;
+});
+
+test('uses the built-in sources when nothing is configured', () => {
+    const sources = loadProviderSources();
+
+    assert.deepEqual(sources.telebirr.map(source => source.id), ['telebirr.primary', 'telebirr.proxy']);
+    assert.deepEqual(sources.cbe.map(source => source.id), ['cbe.direct', 'cbe.browser']);
+    assert.equal(sources.cbe[1].browser, true);
+    // Only sources with relaxed TLS get their own agent
+    assert.equal(sources.telebirr[0].httpsAgent, undefined);
+    assert.ok(sources.cbe[0].httpsAgent);
+});
+
+test('replaces only the providers the configuration lists and fills in defaults', () => {
+    process.env.PROVIDER_SOURCES = JSON.stringify({
+        telebirr: [{ id: 'telebirr.mirror', url: 'https://mirror.example.com/r/{reference}', parser: 'json' }],
+    });
+
+    const sources = loadProviderSources();
+
+    assert.equal(sources.telebirr.length, 1);
+    assert.equal(sources.telebirr[0].provider, 'Telebirr');
+    assert.equal(sources.telebirr[0].timeoutMs, 15000);
+    assert.deepEqual(sources.telebirr[0].headers, {});
+    assert.deepEqual(sources.cbe.map(source => source.id), ['cbe.direct', 'cbe.browser']);
+    assert.ok(SourceHealthService.list().some(report => report.id === 'telebirr.mirror'));
+});
+
+test('reports every invalid setting', () => {
+    process.env.PROVIDER_SOURCES = JSON.stringify({
+        telebirr: [{ id: 'telebirr.pdf', url: 'https://example.com/{reference}', parser: 'pdf' }],
+        cbe: [{ id: 'cbe bad', url: 'https://example.com/receipt', parser: 'pdf' }],
+    });
+
+    assert.throws(() => loadProviderSources(), (error: Error) => {
+        assert.match(error.message, /^Invalid provider sources: /);
+        assert.match(error.message, /telebirr\.0: Telebirr sources use the html or json parser/);
+        assert.match(error.message, /cbe\.0\.id: /);
+        assert.match(error.message, /cbe\.0\.url: Must contain \{reference\}/);
+        return true;
+    });
+});
+
+test('rejects unknown providers, duplicate ids and unreadable configuration', () => {
+    process.env.PROVIDER_SOURCES = JSON.stringify({ mpesa: [] });
+    assert.throws(() => loadProviderSources(), /Invalid provider sources: config: /);
+
+    process.env.PROVIDER_SOURCES = JSON.stringify({
+        cbe: [{ id: 'telebirr.primary', url: 'https://example.com/{reference}', parser: 'pdf' }],
+    });
+    assert.throws(() => loadProviderSources(), /duplicate source id telebirr\.primary/);
+
+    process.env.PROVIDER_SOURCES = '{not json';
+    assert.throws(() => loadProviderSources(), /Could not read provider sources: /);
+});
+
+test('starts with the first Telebirr source disabled when SKIP_PRIMARY_VERIFICATION is set', () => {
+    process.env.SKIP_PRIMARY_VERIFICATION = 'true';
+    process.env.PROVIDER_SOURCES = JSON.stringify({
+        telebirr: [
+            { id: 'telebirr.skipped', url: 'https://example.com/{reference}', parser: 'html' },
+            { id: 'telebirr.kept', url: 'https://example.org/{reference}', parser: 'json' },
+        ],
+    });
+
+    loadProviderSources();
+
+    const overrides = Object.fromEntries(SourceHealthService.list().map(report => [report.id, report.override]));
+    assert.equal(overrides['telebirr.skipped'], 'disabled');
+    assert.equal(overrides['telebirr.kept'], 'auto');
+});
+
+test('fills in and encodes the lookup values', () => {
+    const [source] = loadProviderSources().cbe;
+
+    assert.equal(
+        sourceUrl(source, { reference: 'FT25123ABCDE', accountSuffix: '12345678' }),
+        'https://apps.cbe.com.et:100/?id=FT25123ABCDE12345678'
+    );
+    assert.equal(sourceUrl({ ...source, url: 'https://example.com/{reference}' }, { reference: 'a/b c' }), 'https://example.com/a%2Fb%20c');
+});
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import https from 'https';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { SourceHealthService } from '../sourceHealthService';
+
+const sourceSchema = z.object({
+    /** Identifier used in logs and the circuit breaker, e.g. "telebirr.primary" */
+    id: z.string().regex(/^[a-z0-9._-]+$/i, 'Use letters, digits, ".", "_" or "-"'),
+    description: z.string().optional(),
+    /** Receipt URL with {reference} (and {accountSuffix} for CBE) placeholders */
+    url: z.string().url().refine(url => url.includes('{reference}'), 'Must contain {reference}'),
+    /** How the response is read: a Telebirr receipt page, a JSON receipt from a proxy or a CBE receipt PDF */
+    parser: z.enum(['html', 'json', 'pdf']),
+    /** Open the URL in headless Chromium and take the PDF it serves, for CBE pages that need a browser */
+    browser: z.boolean().default(false),
+    timeoutMs: z.number().int().positive().max(120000).default(15000),
+    headers: z.record(z.string(), z.string()).default({}),
+    tls: z.object({
+        rejectUnauthorized: z.boolean().default(true),
+        /** PEM file with extra CA certificates to trust */
+        caFile: z.string().optional(),
+    }).default({ rejectUnauthorized: true }),
+});
+
+const sourcesSchema = z.object({
+    telebirr: z.array(sourceSchema.refine(source => source.parser !== 'pdf' && !source.browser, 'Telebirr sources use the html or json parser')).min(1).optional(),
+    cbe: z.array(sourceSchema.refine(source => source.parser === 'pdf', 'CBE sources use the pdf parser')).min(1).optional(),
+}).strict();
+
+type SourceInput = z.infer<typeof sourceSchema>;
+
+export interface ProviderSource extends Omit<SourceInput, 'tls'> {
+    provider: string;
+    /** Agent for the source's TLS options, or undefined for Node's defaults */
+    httpsAgent?: https.Agent;
+}
+
+export type SourceProviderKey = 'telebirr' | 'cbe';
+
+// Built-in sources, used for providers the configuration does not list
+const DEFAULT_SOURCES: Record<SourceProviderKey, z.input<typeof sourceSchema>[]> = {
+    telebirr: [
+        {
+            id: 'telebirr.primary',
+            description: 'Receipt page on transactioninfo.ethiotelecom.et',
+            url: 'https://transactioninfo.ethiotelecom.et/receipt/{reference}',
+            parser: 'html',
+        },
+        {
+            id: 'telebirr.proxy',
+            description: 'Fallback proxy on leul.et',
+            url: 'https://leul.et/verify.php?reference={reference}',
+            parser: 'json',
+            headers: { 'Accept': 'application/json', 'User-Agent': 'VerifierAPI/1.0' },
+        },
+    ],
+    cbe: [
+        {
+            id: 'cbe.direct',
+            description: 'Receipt PDF fetched from apps.cbe.com.et',
+            url: 'https://apps.cbe.com.et:100/?id={reference}{accountSuffix}',
+            parser: 'pdf',
+            timeoutMs: 30000,
+            headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)', 'Accept': 'application/pdf' },
+            tls: { rejectUnauthorized: false },
+        },
+        {
+            id: 'cbe.browser',
+            description: 'Receipt page on apps.cbe.com.et in headless Chromium',
+            url: 'https://apps.cbe.com.et:100/?id={reference}{accountSuffix}',
+            parser: 'pdf',
+            browser: true,
+            timeoutMs: 20000,
+            tls: { rejectUnauthorized: false },
+        },
+    ],
+};
+
+const PROVIDER_IDS: Record<SourceProviderKey, string> = { telebirr: 'Telebirr', cbe: 'CBE' };
+
+let loaded: Record<SourceProviderKey, ProviderSource[]> | null = null;
+
+/**
+ * Reads the source configuration from PROVIDER_SOURCES (inline JSON) or PROVIDER_SOURCES_FILE
+ * (path to a JSON file), falling back to the built-in sources
+ */
+const readConfig = (): unknown => {
+    if (process.env.PROVIDER_SOURCES) {
+        return JSON.parse(process.env.PROVIDER_SOURCES);
+    }
+    if (process.env.PROVIDER_SOURCES_FILE) {
+        return JSON.parse(fs.readFileSync(process.env.PROVIDER_SOURCES_FILE, 'utf8'));
+    }
+    return {};
+};
+
+const toProviderSource = (provider: string, input: SourceInput): ProviderSource => {
+    const { tls, ...source } = input;
+    const customTls = !tls.rejectUnauthorized || tls.caFile;
+    return {
+        ...source,
+        provider,
+        httpsAgent: customTls
+            ? new https.Agent({
+                rejectUnauthorized: tls.rejectUnauthorized,
+                ...(tls.caFile && { ca: fs.readFileSync(tls.caFile) }),
+            })
+            : undefined,
+    };
+};
+
+/**
+ * Loads and validates the receipt sources of each provider and registers them with their
+ * circuit breakers. Called at startup so a bad configuration stops the server.
+ * @throws Error describing every invalid setting
+ */
+export function loadProviderSources(): Record<SourceProviderKey, ProviderSource[]> {
+    let config: unknown;
+    try {
+        config = readConfig();
+    } catch (error) {
+        throw new Error(`Could not read provider sources: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = sourcesSchema.safeParse(config);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+        throw new Error(`Invalid provider sources: ${issues.join('; ')}`);
+    }
+
+    const sources = {} as Record<SourceProviderKey, ProviderSource[]>;
+    for (const key of Object.keys(PROVIDER_IDS) as SourceProviderKey[]) {
+        const inputs = parsed.data[key] ?? DEFAULT_SOURCES[key].map(source => sourceSchema.parse(source));
+        sources[key] = inputs.map(input => toProviderSource(PROVIDER_IDS[key], input));
+    }
+
+    // Ids key the circuit breakers, so they must be unique across providers
+    const ids = [...sources.telebirr, ...sources.cbe].map(source => source.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+        throw new Error(`Invalid provider sources: duplicate source id ${duplicate}`);
+    }
+
+    // SKIP_PRIMARY_VERIFICATION=true starts with the first Telebirr source switched off
+    const skipPrimary = process.env.SKIP_PRIMARY_VERIFICATION === 'true';
+    for (const source of [...sources.telebirr, ...sources.cbe]) {
+        SourceHealthService.register(
+            { id: source.id, provider: source.provider, description: source.description ?? source.url },
+            skipPrimary && source === sources.telebirr[0] ? 'disabled' : 'auto'
+        );
+    }
+
+    loaded = sources;
+    logger.info('Loaded provider sources', {
+        telebirr: sources.telebirr.map(source => source.id),
+        cbe: sources.cbe.map(source => source.id),
+    });
+    return sources;
+}
+
+/**
+ * Sources of a provider in the order they are tried
+ */
+export function getProviderSources(provider: SourceProviderKey): ProviderSource[] {
+    return (loaded ?? loadProviderSources())[provider];
+}
+
+/**
+ * The receipt URL of a source with the lookup's values filled in
+ */
+export function sourceUrl(source: ProviderSource, values: { reference: string; accountSuffix?: string }): string {
+    return source.url
+        .replace('{reference}', encodeURIComponent(values.reference))
+        .replace('{accountSuffix}', encodeURIComponent(values.accountSuffix ?? ''));
+}
@@ -0,0 +1,34 @@
+import { verifyTelebirr, normalizeTelebirrReceipt, parseTelebirrReceiptHtml, TelebirrReceipt } from '../verifyTelebirr';
+import { PaymentProvider } from './paymentProvider';
+
+// Receipt pages print the status with varying case and surrounding whitespace
+const transactionStatus = (raw: TelebirrReceipt): string => raw.transactionStatus.trim().toLowerCase();
+
+export const telebirrProvider: PaymentProvider<TelebirrReceipt> = {
+    id: 'Telebirr',
+    displayName: 'Telebirr',
+    verifyPath: '/verify-telebirr',
+    requiresAccountSuffix: false,
+    documentFormat: 'html',
+
+    async fetchReceipt(reference) {
+        return verifyTelebirr(reference);
+    },
+
+    async parseDocument(document) {
+        return parseTelebirrReceiptHtml(document.toString('utf8'));
+    },
+
+    isFinal(raw) {
+        // Pending transactions can still complete or fail
+        return ['completed', 'failed'].includes(transactionStatus(raw));
+    },
+
+    normalize(raw) {
+        return normalizeTelebirrReceipt(raw);
+    },
+
+    getFailureReason(raw) {
+        return transactionStatus(raw) === 'completed' ? null : 'Telebirr transaction not completed';
+    },
+};
@@ -0,0 +1,81 @@
+import logger from '../utils/logger';
+import { nonNegativeIntEnv } from '../utils/env';
+import { NormalizedReceipt } from '../types/receipt';
+
+// How long before an intent was created a receipt may be dated, for customers who pay
+// before the merchant creates the intent. Zero disables the grace window.
+export const RECEIPT_DATE_GRACE_MINUTES = nonNegativeIntEnv('RECEIPT_DATE_GRACE_MINUTES', 60);
+
+// Allowance for provider clocks running ahead of ours
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type ReceiptDateOutcome = 'within_window' | 'before_intent' | 'in_future' | 'missing';
+
+export interface ReceiptDateResult {
+  matched: boolean;
+  outcome: ReceiptDateOutcome;
+  /** Payment time from the receipt, in UTC */
+  paidAt: string | null;
+  earliest: string;
+  latest: string;
+  /** Date text printed on the receipt, when it was missing or could not be read */
+  printedDate?: string | null;
+}
+
+/**
+ * Check a receipt was paid while the intent could take it: no earlier than the intent's
+ * creation minus the grace window, and not in the future
+ */
+export const checkReceiptDate = (
+  receipt: NormalizedReceipt,
+  intentCreatedAt: Date,
+  now: Date = new Date(),
+  graceMinutes: number = RECEIPT_DATE_GRACE_MINUTES
+): ReceiptDateResult => {
+  const earliest = new Date(intentCreatedAt.getTime() - graceMinutes * 60 * 1000);
+  const latest = new Date(now.getTime() + CLOCK_SKEW_MS);
+  const paidAt = receipt.timestamp ? new Date(receipt.timestamp) : null;
+
+  let outcome: ReceiptDateOutcome;
+  if (!paidAt || isNaN(paidAt.getTime())) {
+    outcome = 'missing';
+  } else if (paidAt < earliest) {
+    outcome = 'before_intent';
+  } else if (paidAt > latest) {
+    outcome = 'in_future';
+  } else {
+    outcome = 'within_window';
+  }
+
+  const result: ReceiptDateResult = {
+    matched: outcome === 'within_window',
+    outcome,
+    paidAt: paidAt && outcome !== 'missing' ? paidAt.toISOString() : null,
+    earliest: earliest.toISOString(),
+    latest: latest.toISOString(),
+  };
+
+  if (outcome === 'missing') {
+    // Usually a date format the provider parser does not know yet
+    result.printedDate = receipt.printedTimestamp ?? null;
+    logger.warn(`${receipt.provider} receipt ${receipt.reference} has no readable payment date`, {
+      printedDate: result.printedDate,
+      timestamp: receipt.timestamp,
+    });
+  }
+  return result;
+};
+
+/**
+ * Failure reason for a receipt date that did not match
+ */
+export const describeReceiptDateFailure = (result: ReceiptDateResult): string => {
+  switch (result.outcome) {
+    case 'before_intent':
+      return `Receipt is dated ${result.paidAt}, before this payment intent was created`;
+    case 'in_future':
+      return `Receipt is dated ${result.paidAt}, which is in the future`;
+    default:
+      return 'Receipt has no readable payment date';
+  }
+};
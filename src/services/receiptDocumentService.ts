@@ -0,0 +1,181 @@
+import logger from '../utils/logger';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { NormalizedReceipt } from '../types/receipt';
+import {
+  getProviderForDocument,
+  PaymentProvider,
+  ReceiptDocumentFormat,
+  verifyWithProvider,
+} from './providers';
+
+// Fields that must agree between an uploaded receipt and the provider's live copy
+const CROSS_CHECK_FIELDS = ['reference', 'amount', 'totalAmount', 'receiverAccount', 'timestamp', 'status'] as const;
+
+export type CrossCheckOutcome = 'matched' | 'mismatched' | 'unavailable';
+
+// live: the document was compared with the provider's receipt; document_only: only its contents were read
+export type DocumentVerificationLevel = 'live' | 'document_only';
+
+export interface DocumentCrossCheck {
+  outcome: CrossCheckOutcome;
+  /** Fields whose uploaded value differs from the live receipt */
+  mismatches: { field: string; document: unknown; live: unknown }[];
+  liveReceipt: NormalizedReceipt | null;
+  error?: string;
+}
+
+export interface DocumentVerification {
+  /**
+   * Whether the document shows a completed payment and matches the provider's live receipt.
+   * Never true for the document alone, since an uploaded file can be edited.
+   */
+  verified: boolean;
+  /** The document was read as a receipt of the provider */
+  parsed: true;
+  verification: DocumentVerificationLevel;
+  provider: string;
+  format: ReceiptDocumentFormat;
+  reference: string;
+  receipt: NormalizedReceipt;
+  error?: string;
+  crossCheck?: DocumentCrossCheck;
+}
+
+/**
+ * Work out whether an upload is a PDF or a saved HTML page from its content, ignoring
+ * the file name and MIME type phones attach to downloads
+ */
+export const detectDocumentFormat = (document: Buffer): ReceiptDocumentFormat | null => {
+  if (document.subarray(0, 1024).toString('latin1').includes('%PDF-')) {
+    return 'pdf';
+  }
+  const head = document.subarray(0, 4096).toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (/^<(!doctype html|html|head|body|table|meta)\b/i.test(head)) {
+    return 'html';
+  }
+  return null;
+};
+
+const sameValue = (field: string, document: unknown, live: unknown): boolean => {
+  if (typeof document === 'string' && typeof live === 'string') {
+    // Receipt references and account numbers are printed with varying spacing and case
+    return field === 'timestamp'
+      ? new Date(document).getTime() === new Date(live).getTime()
+      : document.replace(/\s+/g, '').toUpperCase() === live.replace(/\s+/g, '').toUpperCase();
+  }
+  return document === live;
+};
+
+export class ReceiptDocumentService {
+  /**
+   * Parse an uploaded receipt document with the parser of the provider that issues it
+   * @throws AppError 415 for files that are neither PDFs nor HTML, 422 for unreadable receipts
+   */
+  static async parse(document: Buffer): Promise<{
+    provider: PaymentProvider<unknown>;
+    format: ReceiptDocumentFormat;
+    receipt: NormalizedReceipt;
+    raw: unknown;
+  }> {
+    const format = detectDocumentFormat(document);
+    const provider = format ? getProviderForDocument(format) : undefined;
+    if (!format || !provider) {
+      throw new AppError(
+        'Unsupported document. Upload a CBE receipt PDF or a saved Telebirr receipt page.',
+        ErrorType.VALIDATION,
+        415,
+        undefined,
+        'unsupported_document'
+      );
+    }
+
+    const raw = await provider.parseDocument!(document);
+    const receipt = raw ? provider.normalize(raw) : null;
+    if (!raw || !receipt) {
+      throw new AppError(
+        `Could not read a ${provider.displayName} receipt from the document`,
+        ErrorType.VALIDATION,
+        422,
+        { provider: provider.id, format },
+        'unreadable_document'
+      );
+    }
+
+    return { provider, format, receipt, raw };
+  }
+
+  /**
+   * Compare a receipt read from a document with the copy the provider serves for the same
+   * reference, so edited documents are caught
+   */
+  static async crossCheck(
+    provider: PaymentProvider<unknown>,
+    receipt: NormalizedReceipt,
+    accountSuffix?: string
+  ): Promise<DocumentCrossCheck> {
+    try {
+      const live = await verifyWithProvider(provider, receipt.reference, { accountSuffix });
+      if (!live.receipt) {
+        return { outcome: 'unavailable', mismatches: [], liveReceipt: null, error: live.error ?? 'Live receipt not found' };
+      }
+
+      const mismatches = CROSS_CHECK_FIELDS
+        .filter(field => !sameValue(field, receipt[field], live.receipt![field]))
+        .map(field => ({ field, document: receipt[field], live: live.receipt![field] }));
+
+      return {
+        outcome: mismatches.length === 0 ? 'matched' : 'mismatched',
+        mismatches,
+        liveReceipt: live.receipt,
+      };
+    } catch (error) {
+      logger.warn(`Live ${provider.displayName} lookup failed for document cross-check of ${receipt.reference}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { outcome: 'unavailable', mismatches: [], liveReceipt: null, error: 'Live receipt lookup failed' };
+    }
+  }
+
+  /**
+   * Verify an uploaded receipt document, optionally against the provider's live receipt.
+   * CBE cross-checks need the receiver account suffix, since documents only show a masked account.
+   */
+  static async verify(
+    document: Buffer,
+    options: { crossCheck?: boolean; accountSuffix?: string } = {}
+  ): Promise<DocumentVerification> {
+    const { provider, format, receipt, raw } = await this.parse(document);
+
+    if (options.crossCheck && provider.requiresAccountSuffix && !options.accountSuffix) {
+      throw new AppError(
+        `Account suffix is required to cross-check ${provider.displayName} receipts`,
+        ErrorType.VALIDATION,
+        400
+      );
+    }
+
+    const failureReason = provider.getFailureReason(raw);
+    const crossCheck = options.crossCheck
+      ? await this.crossCheck(provider, receipt, options.accountSuffix)
+      : undefined;
+
+    // Without a live receipt to compare, the document is reported as read but not verified
+    const verification: DocumentVerificationLevel = crossCheck && crossCheck.outcome !== 'unavailable' ? 'live' : 'document_only';
+    let error = failureReason ?? undefined;
+    if (!error && crossCheck?.outcome === 'mismatched') {
+      error = `Document does not match the live ${provider.displayName} receipt`;
+    }
+
+    return {
+      verified: !error && crossCheck?.outcome === 'matched',
+      parsed: true,
+      verification,
+      provider: provider.id,
+      format,
+      reference: receipt.reference,
+      receipt,
+      ...(error && { error }),
+      ...(crossCheck && { crossCheck }),
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { ConsumedReceipt, Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { prisma } from '../utils/prisma';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { minorToAmount } from '../utils/money';
+import { NormalizedReceipt } from '../types/receipt';
+import { getProvider } from './providers';
+
+// Where a receipt was claimed
+export type ReceiptConsumerSource = 'payment_intent' | 'verify_endpoint';
+
+export interface ConsumeReceiptInput {
+  provider: string;
+  reference: string;
+  source: ReceiptConsumerSource;
+  merchant?: string | null;
+  apiKeyId?: string | null;
+  paymentIntentId?: string | null;
+  amount?: Prisma.Decimal | null;
+}
+
+/**
+ * Normalize a reference so the same receipt cannot be claimed twice by
+ * changing its case or adding whitespace
+ */
+export const normalizeReference = (reference: string): string => reference.replace(/\s+/g, '').toUpperCase();
+
+// Ledger entries are keyed by the canonical provider id
+const canonicalProvider = (provider: string): string => getProvider(provider)?.id ?? provider;
+
+export class ReceiptLedgerService {
+  /**
+   * Look up the ledger entry for a reference, if it has been claimed
+   */
+  static async find(provider: string, reference: string): Promise<ConsumedReceipt | null> {
+    return prisma.consumedReceipt.findUnique({
+      where: {
+        provider_reference: {
+          provider: canonicalProvider(provider),
+          reference: normalizeReference(reference),
+        },
+      },
+    });
+  }
+
+  /**
+   * Throw if a reference has already been claimed. This is an early check;
+   * the unique constraint in consume() is what guarantees a single claim.
+   */
+  static async assertNotConsumed(provider: string, reference: string, merchant?: string | null): Promise<void> {
+    const existing = await this.find(provider, reference);
+    if (existing) {
+      throw this.alreadyConsumedError(existing, merchant);
+    }
+  }
+
+  /**
+   * Claim a reference. Pass the transaction client when the claim belongs to
+   * a state change so a rolled-back confirmation does not burn the reference.
+   */
+  static async consume(client: Prisma.TransactionClient, input: ConsumeReceiptInput): Promise<ConsumedReceipt> {
+    try {
+      return await client.consumedReceipt.create({
+        data: {
+          provider: canonicalProvider(input.provider),
+          reference: normalizeReference(input.reference),
+          source: input.source,
+          merchant: input.merchant ?? null,
+          apiKeyId: input.apiKeyId ?? null,
+          paymentIntentId: input.paymentIntentId ?? null,
+          amount: input.amount ?? null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+        // Read the winning claim outside the failed transaction
+        throw this.alreadyConsumedError(await this.find(input.provider, input.reference), input.merchant);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim a receipt verified through one of the standalone verify endpoints
+   * when the caller passed consume: true
+   */
+  static async consumeVerified(
+    reference: string,
+    receipt: NormalizedReceipt,
+    apiKey?: { id: string; owner: string }
+  ): Promise<ConsumedReceipt> {
+    return this.consume(prisma, {
+      provider: receipt.provider,
+      reference,
+      source: 'verify_endpoint',
+      merchant: apiKey?.owner,
+      apiKeyId: apiKey?.id,
+      amount: minorToAmount(receipt.totalAmount),
+    });
+  }
+
+  /**
+   * Conflict error for a reference that was already claimed. Other merchants
+   * only learn when and where it was claimed; the merchant that claimed it
+   * also gets the payment intent that won.
+   */
+  static alreadyConsumedError(existing: ConsumedReceipt | null, merchant?: string | null): AppError {
+    const ownClaim = Boolean(existing && merchant && existing.merchant === merchant);
+    return new AppError(
+      'Reference has already been used',
+      ErrorType.CONFLICT,
+      409,
+      existing
+        ? {
+          consumedAt: existing.consumedAt,
+          source: existing.source,
+          ...(ownClaim && { paymentIntentId: existing.paymentIntentId }),
+        }
+        : undefined,
+      'receipt_already_consumed'
+    );
+  }
+}
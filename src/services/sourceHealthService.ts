@@ -0,0 +1,270 @@
+import logger from '../utils/logger';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import { positiveIntEnv } from '../utils/env';
+
+// Consecutive failures that open a source's circuit
+const FAILURE_THRESHOLD = positiveIntEnv('CIRCUIT_FAILURE_THRESHOLD', 5);
+
+// How long an open circuit skips its source before letting a trial request through
+const OPEN_SECONDS = positiveIntEnv('CIRCUIT_OPEN_SECONDS', 60);
+
+// Recent calls kept per source for success rate and latency
+const WINDOW_SIZE = 50;
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// auto follows the circuit; enabled always calls the source; disabled never does
+export type SourceOverride = 'auto' | 'enabled' | 'disabled';
+
+export interface UpstreamSource {
+  /** Identifier, e.g. "telebirr.primary" */
+  id: string;
+  /** Canonical id of the payment provider the source serves */
+  provider: string;
+  description: string;
+}
+
+interface SourceHealth {
+  source: UpstreamSource;
+  state: CircuitState;
+  override: SourceOverride;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  trialInFlight: boolean;
+  recent: { ok: boolean; latencyMs: number }[];
+  successes: number;
+  failures: number;
+  skipped: number;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+}
+
+export interface SourceHealthReport {
+  id: string;
+  provider: string;
+  description: string;
+  state: CircuitState;
+  override: SourceOverride;
+  /** Whether the next call would reach the source */
+  available: boolean;
+  consecutiveFailures: number;
+  /** Share of the recent calls that succeeded, or null before the first call */
+  successRate: number | null;
+  averageLatencyMs: number | null;
+  successes: number;
+  failures: number;
+  skipped: number;
+  openedAt: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+const sources = new Map<string, SourceHealth>();
+
+/**
+ * Circuit breakers for the upstream sites receipts are fetched from. A source that keeps
+ * failing is skipped until OPEN_SECONDS pass, then a single trial call decides whether it
+ * closes again; admins can force a source on or off regardless.
+ */
+export class SourceHealthService {
+  /**
+   * Track a source so it is listed in health reports before its first call
+   */
+  static register(source: UpstreamSource, override: SourceOverride = 'auto'): void {
+    const existing = sources.get(source.id);
+    if (existing) {
+      existing.source = source;
+      return;
+    }
+    sources.set(source.id, {
+      source,
+      state: 'closed',
+      override,
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      recent: [],
+      successes: 0,
+      failures: 0,
+      skipped: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+    });
+  }
+
+  /**
+   * Whether a call to the source would go through now
+   */
+  static isAvailable(sourceId: string): boolean {
+    const health = sources.get(sourceId);
+    if (!health) {
+      return true;
+    }
+    if (health.override !== 'auto') {
+      return health.override === 'enabled';
+    }
+    this.refreshState(health);
+    return health.state === 'closed' || (health.state === 'half_open' && !health.trialInFlight);
+  }
+
+  /**
+   * Refuse a source its circuit skips, for callers that set up local resources before call()
+   * @throws AppError 503 with code source_unavailable when the circuit skips the source
+   */
+  static assertAvailable(sourceId: string): void {
+    const health = sources.get(sourceId);
+    if (!health || this.isAvailable(sourceId)) {
+      return;
+    }
+
+    health.skipped++;
+    throw new AppError(
+      `Source ${sourceId} is unavailable`,
+      ErrorType.INTERNAL,
+      503,
+      { source: sourceId, state: health.state, override: health.override },
+      'source_unavailable'
+    );
+  }
+
+  /**
+   * Call a source through its circuit breaker, recording the outcome and latency.
+   * Only thrown errors count as failures, so a receipt that does not exist is not held
+   * against the source.
+   * @throws AppError 503 with code source_unavailable when the circuit skips the source
+   */
+  static async call<T>(sourceId: string, task: () => Promise<T>): Promise<T> {
+    const health = sources.get(sourceId);
+    if (!health) {
+      return task();
+    }
+
+    this.assertAvailable(sourceId);
+
+    const trial = health.override === 'auto' && health.state === 'half_open';
+    if (trial) {
+      health.trialInFlight = true;
+    }
+
+    const started = Date.now();
+    try {
+      const result = await task();
+      this.recordSuccess(health, Date.now() - started);
+      return result;
+    } catch (error) {
+      this.recordFailure(health, Date.now() - started, error);
+      throw error;
+    } finally {
+      if (trial) {
+        health.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Whether an error is call() refusing to reach a skipped source, rather than the source failing
+   */
+  static isSkip(error: unknown): error is AppError {
+    return error instanceof AppError && error.code === 'source_unavailable';
+  }
+
+  /**
+   * Force a source on or off, or hand it back to its circuit with auto
+   * @throws AppError 404 for unknown sources
+   */
+  static setOverride(sourceId: string, override: SourceOverride): SourceHealthReport {
+    const health = sources.get(sourceId);
+    if (!health) {
+      throw new AppError('Upstream source not found', ErrorType.NOT_FOUND, 404);
+    }
+    health.override = override;
+    if (override === 'auto') {
+      // Start over rather than acting on failures from before the override
+      health.state = 'closed';
+      health.consecutiveFailures = 0;
+      health.openedAt = null;
+    }
+    logger.info(`Upstream source ${sourceId} override set to ${override}`);
+    return this.report(health);
+  }
+
+  static list(): SourceHealthReport[] {
+    return Array.from(sources.values()).map(health => this.report(health));
+  }
+
+  private static report(health: SourceHealth): SourceHealthReport {
+    this.refreshState(health);
+    const { recent } = health;
+    return {
+      id: health.source.id,
+      provider: health.source.provider,
+      description: health.source.description,
+      state: health.state,
+      override: health.override,
+      available: this.isAvailable(health.source.id),
+      consecutiveFailures: health.consecutiveFailures,
+      successRate: recent.length > 0
+        ? Math.round((recent.filter(call => call.ok).length / recent.length) * 1000) / 1000
+        : null,
+      averageLatencyMs: recent.length > 0
+        ? Math.round(recent.reduce((sum, call) => sum + call.latencyMs, 0) / recent.length)
+        : null,
+      successes: health.successes,
+      failures: health.failures,
+      skipped: health.skipped,
+      openedAt: health.openedAt?.toISOString() ?? null,
+      lastSuccessAt: health.lastSuccessAt?.toISOString() ?? null,
+      lastFailureAt: health.lastFailureAt?.toISOString() ?? null,
+      lastError: health.lastError,
+    };
+  }
+
+  /**
+   * Move an open circuit to half-open once its wait is over
+   */
+  private static refreshState(health: SourceHealth): void {
+    if (health.state === 'open' && health.openedAt && Date.now() - health.openedAt.getTime() >= OPEN_SECONDS * 1000) {
+      health.state = 'half_open';
+    }
+  }
+
+  private static recordCall(health: SourceHealth, ok: boolean, latencyMs: number): void {
+    health.recent.push({ ok, latencyMs });
+    if (health.recent.length > WINDOW_SIZE) {
+      health.recent.shift();
+    }
+  }
+
+  private static recordSuccess(health: SourceHealth, latencyMs: number): void {
+    this.recordCall(health, true, latencyMs);
+    health.successes++;
+    health.lastSuccessAt = new Date();
+    health.consecutiveFailures = 0;
+    if (health.state !== 'closed') {
+      logger.info(`Upstream source ${health.source.id} recovered, closing circuit`);
+      health.state = 'closed';
+      health.openedAt = null;
+    }
+  }
+
+  private static recordFailure(health: SourceHealth, latencyMs: number, error: unknown): void {
+    this.recordCall(health, false, latencyMs);
+    health.failures++;
+    health.lastFailureAt = new Date();
+    health.lastError = error instanceof Error ? error.message : String(error);
+    health.consecutiveFailures++;
+
+    // A failed trial reopens at once; a closed circuit opens after repeated failures
+    if (health.state === 'half_open' || (health.state === 'closed' && health.consecutiveFailures >= FAILURE_THRESHOLD)) {
+      logger.warn(`Upstream source ${health.source.id} failing, opening circuit for ${OPEN_SECONDS}s`, {
+        consecutiveFailures: health.consecutiveFailures,
+        lastError: health.lastError,
+      });
+      health.state = 'open';
+      health.openedAt = new Date();
+    }
+  }
+}
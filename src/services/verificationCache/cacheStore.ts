@@ -0,0 +1,31 @@
+/**
+ * A provider lookup result held in the verification cache
+ */
+export interface CacheEntry {
+  /** Provider payload as JSON-safe data; null when the lookup found nothing */
+  raw: unknown;
+  final: boolean;
+  storedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Where cached lookups are kept. Adding a backend means implementing this interface and
+ * selecting it in getStore.
+ */
+export interface VerificationCacheStore {
+  name: string;
+
+  /**
+   * @returns The entry, or null if there is none or it has expired
+   */
+  get(key: string): Promise<CacheEntry | null>;
+
+  set(key: string, entry: CacheEntry, meta: { provider: string; reference: string }): Promise<void>;
+
+  /**
+   * Delete expired entries
+   * @returns The number of entries deleted
+   */
+  purgeExpired(): Promise<number>;
+}
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import logger from '../../utils/logger';
+import { positiveIntEnv } from '../../utils/env';
+import { PaymentProvider, ProviderLookupOptions, VerificationCacheStatus } from '../providers/paymentProvider';
+import { VerificationCacheStore } from './cacheStore';
+import { memoryStore } from './memoryStore';
+import { postgresStore } from './postgresStore';
+
+export * from './cacheStore';
+
+// Backend for cached lookups: memory, postgres or off
+const CACHE_BACKEND = (process.env.VERIFICATION_CACHE || 'memory').toLowerCase();
+
+// Receipts that can no longer change are kept for a day; pending receipts and failed
+// lookups only briefly, since retrying them soon may give a different answer
+const FINAL_TTL_SECONDS = positiveIntEnv('VERIFICATION_CACHE_FINAL_TTL_SECONDS', 86400);
+const SHORT_TTL_SECONDS = positiveIntEnv('VERIFICATION_CACHE_SHORT_TTL_SECONDS', 30);
+
+const stores: Record<string, VerificationCacheStore> = {
+  memory: memoryStore,
+  postgres: postgresStore,
+};
+
+export interface CachedLookup<TRaw = unknown> {
+  raw: TRaw | null;
+  cache?: VerificationCacheStatus;
+}
+
+// Lookups being fetched, so concurrent requests for one reference share a single fetch
+const inFlight = new Map<string, Promise<CachedLookup<any>>>();
+
+const cacheKey = (provider: PaymentProvider<unknown>, reference: string, options: ProviderLookupOptions): string =>
+  // References are normalized the same way as in the receipt ledger
+  [provider.id, reference.replace(/\s+/g, '').toUpperCase(), provider.cacheKeySuffix?.(options)]
+    .filter(Boolean)
+    .join(':');
+
+const status = (
+  kind: VerificationCacheStatus['status'],
+  store: VerificationCacheStore,
+  storedAt: Date,
+  expiresAt: Date
+): VerificationCacheStatus => ({
+  status: kind,
+  store: store.name,
+  ttl: Math.max(0, Math.round((expiresAt.getTime() - Date.now()) / 1000)),
+  storedAt: storedAt.toISOString(),
+});
+
+export class VerificationCache {
+  /**
+   * The configured store, or null when caching is off
+   */
+  static getStore(): VerificationCacheStore | null {
+    return stores[CACHE_BACKEND] ?? null;
+  }
+
+  /**
+   * Fetch a receipt through the cache: a stored lookup is returned until it expires,
+   * otherwise the provider is asked and the result stored with a TTL by finality
+   */
+  static async fetch<TRaw>(
+    provider: PaymentProvider<TRaw>,
+    reference: string,
+    options: ProviderLookupOptions = {}
+  ): Promise<CachedLookup<TRaw>> {
+    const store = this.getStore();
+    if (!store) {
+      return { raw: await provider.fetchReceipt(reference, options) };
+    }
+
+    const key = cacheKey(provider, reference, options);
+    if (!options.skipCache) {
+      const entry = await store.get(key).catch(error => {
+        logger.warn(`Verification cache read failed for ${key}`, { error: error.message });
+        return null;
+      });
+      if (entry) {
+        const raw = entry.raw === null ? null : provider.fromJSON ? provider.fromJSON(entry.raw) : entry.raw as TRaw;
+        return { raw, cache: status('hit', store, entry.storedAt, entry.expiresAt) };
+      }
+    }
+
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = this.fetchAndStore(store, key, provider, reference, options).finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Delete expired entries from the configured store
+   */
+  static async purgeExpired(): Promise<number> {
+    return (await this.getStore()?.purgeExpired()) ?? 0;
+  }
+
+  private static async fetchAndStore<TRaw>(
+    store: VerificationCacheStore,
+    key: string,
+    provider: PaymentProvider<TRaw>,
+    reference: string,
+    options: ProviderLookupOptions
+  ): Promise<CachedLookup<TRaw>> {
+    const raw = await provider.fetchReceipt(reference, options);
+
+    const final = raw !== null && (provider.isFinal ? provider.isFinal(raw) : provider.getFailureReason(raw) === null);
+    const storedAt = new Date();
+    const expiresAt = new Date(storedAt.getTime() + (final ? FINAL_TTL_SECONDS : SHORT_TTL_SECONDS) * 1000);
+
+    // Stored as JSON in every backend so hits look the same whichever store served them
+    const json = raw === null ? null : JSON.parse(JSON.stringify(raw));
+    await store
+      .set(key, { raw: json, final, storedAt, expiresAt }, { provider: provider.id, reference })
+      .catch(error => logger.warn(`Verification cache write failed for ${key}`, { error: error.message }));
+
+    return { raw, cache: status(options.skipCache ? 'bypass' : 'miss', store, storedAt, expiresAt) };
+  }
+}
+
+/**
+ * Whether the request asked to skip the cache with Cache-Control: no-cache
+ */
+export const bypassesCache = (req: Request): boolean => /\bno-cache\b/i.test(req.get('Cache-Control') ?? '');
+
+/**
+ * Report how the cache served a lookup in a Cache-Status header (RFC 9211)
+ */
+export const setCacheStatusHeader = (res: Response, cache: VerificationCacheStatus | undefined): void => {
+  if (!cache) {
+    return;
+  }
+  const parts = cache.status === 'hit'
+    ? ['lumepay', 'hit', `ttl=${cache.ttl}`]
+    : ['lumepay', `fwd=${cache.status}`, 'stored', `ttl=${cache.ttl}`];
+  res.set('Cache-Status', parts.join('; '));
+};
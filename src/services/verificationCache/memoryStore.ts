@@ -0,0 +1,47 @@
+import { CacheEntry, VerificationCacheStore } from './cacheStore';
+import { positiveIntEnv } from '../../utils/env';
+
+// Oldest entries are dropped beyond this many, to bound memory use
+const MAX_ENTRIES = positiveIntEnv('VERIFICATION_CACHE_MAX_ENTRIES', 5000);
+
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * Per-process cache; entries are lost on restart and not shared between instances
+ */
+export const memoryStore: VerificationCacheStore = {
+  name: 'memory',
+
+  async get(key) {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= new Date()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  },
+
+  async set(key, entry) {
+    // Re-inserting moves the key to the end, so the first key is always the oldest
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value!);
+    }
+  },
+
+  async purgeExpired() {
+    const now = new Date();
+    let purged = 0;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  },
+};
@@ -0,0 +1,39 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { VerificationCacheStore } from './cacheStore';
+
+/**
+ * Cache in the VerificationCacheEntry table, shared by every instance and kept across restarts
+ */
+export const postgresStore: VerificationCacheStore = {
+  name: 'postgres',
+
+  async get(key) {
+    const row = await prisma.verificationCacheEntry.findUnique({ where: { key } });
+    if (!row || row.expiresAt <= new Date()) {
+      return null;
+    }
+    return { raw: row.raw, final: row.final, storedAt: row.storedAt, expiresAt: row.expiresAt };
+  },
+
+  async set(key, entry, meta) {
+    const data = {
+      raw: entry.raw === null ? Prisma.DbNull : (entry.raw as Prisma.InputJsonValue),
+      final: entry.final,
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+    };
+    await prisma.verificationCacheEntry.upsert({
+      where: { key },
+      create: { key, provider: meta.provider, reference: meta.reference, ...data },
+      update: data,
+    });
+  },
+
+  async purgeExpired() {
+    const { count } = await prisma.verificationCacheEntry.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return count;
+  },
+};
@@ -1,9 +1,12 @@
-import puppeteer from 'puppeteer';
 import axios, { AxiosResponse } from 'axios';
 import pdf from 'pdf-parse';
-import https from 'https';
-import fs from 'fs';
 import logger from '../utils/logger';
+import { amountToMinor } from '../utils/money';
+import { parseEATMonthFirstDateTime } from '../utils/dates';
+import { NormalizedReceipt } from '../types/receipt';
+import { BrowserPool } from './browserPool';
+import { SourceHealthService } from './sourceHealthService';
+import { getProviderSources, ProviderSource, sourceUrl } from './providers/sourceConfig';
 
 export interface VerifyResult {
     success: boolean;
@@ -18,88 +21,148 @@ export interface VerifyResult {
     error?: string;
 }
 
+/**
+ * Maps a successful CBE verification result onto the canonical receipt shape
+ * @returns The normalized receipt, or null if the result carries no receipt data
+ */
+export function normalizeCBEReceipt(result: VerifyResult): NormalizedReceipt<VerifyResult> | null {
+    if (!result.success || !result.reference || result.amount === undefined) {
+        return null;
+    }
+
+    const amount = amountToMinor(result.amount);
+    return {
+        provider: 'CBE',
+        reference: result.reference,
+        payerName: result.payer || null,
+        payerAccount: result.payerAccount || null,
+        receiverName: result.receiver || null,
+        receiverAccount: result.receiverAccount || null,
+        amount,
+        // CBE receipts show the transferred amount only; charges are not itemized
+        fee: 0,
+        vat: 0,
+        totalAmount: amount,
+        currency: 'ETB',
+        timestamp: result.date && !isNaN(result.date.getTime()) ? result.date.toISOString() : null,
+        status: 'completed',
+        raw: result
+    };
+}
+
 function titleCase(str: string): string {
     return str.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
 }
 
-export async function verifyCBE(
-    reference: string,
-    accountSuffix: string
-): Promise<VerifyResult> {
-    const fullId = `${reference}${accountSuffix}`;
-    const url = `https://apps.cbe.com.et:100/?id=${fullId}`;
-    const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+/**
+ * Fetches a receipt PDF straight from the source
+ */
+async function fetchPdf(source: ProviderSource, url: string): Promise<ArrayBuffer> {
+    logger.info(`🔎 Attempting direct fetch from ${source.id}: ${url}`);
+    // Only server errors and network failures count against the source
+    const response: AxiosResponse<ArrayBuffer> = await SourceHealthService.call(source.id, () =>
+        axios.get(url, {
+            httpsAgent: source.httpsAgent,
+            responseType: 'arraybuffer',
+            headers: source.headers,
+            timeout: source.timeoutMs,
+            validateStatus: status => status < 500
+        })
+    );
+    if (response.status >= 400) {
+        throw new Error(`${source.id} returned ${response.status}`);
+    }
 
-    try {
-        logger.info(`🔎 Attempting direct fetch: ${url}`);
-        const response: AxiosResponse<ArrayBuffer> = await axios.get(url, {
-            httpsAgent,
+    logger.info('✅ Direct fetch success, parsing PDF');
+    return response.data;
+}
+
+/**
+ * Opens the receipt page in the shared browser and downloads the PDF it serves
+ * @returns The PDF, or null when the page never produced one
+ */
+async function fetchPdfWithBrowser(source: ProviderSource, url: string): Promise<ArrayBuffer | null> {
+    logger.info(`🔎 Opening ${source.id} in headless Chromium: ${url}`);
+    // Skipped sources are refused before a page is taken. The page is taken outside the
+    // breaker, so a busy or closing pool is not held against the source.
+    SourceHealthService.assertAvailable(source.id);
+    return BrowserPool.withPage(page => SourceHealthService.call(source.id, async () => {
+        if (Object.keys(source.headers).length > 0) {
+            await page.setExtraHTTPHeaders(source.headers);
+        }
+        // Wait for the PDF itself rather than a fixed delay after navigation
+        const pdfResponse = page.waitForResponse(
+            response => Boolean(response.headers()['content-type']?.includes('pdf')),
+            { timeout: source.timeoutMs }
+        );
+        // Navigation is aborted when the page turns into a PDF download, so only the response matters
+        page.goto(url, { waitUntil: 'domcontentloaded', timeout: source.timeoutMs })
+            .catch(navErr => logger.debug('CBE receipt navigation ended:', navErr.message));
+
+        const detectedPdfUrl = (await pdfResponse.catch(() => null))?.url();
+        if (!detectedPdfUrl) {
+            return null;
+        }
+        logger.info('🧾 PDF detected:', detectedPdfUrl);
+
+        const pdfRes = await axios.get<ArrayBuffer>(detectedPdfUrl, {
+            httpsAgent: source.httpsAgent,
             responseType: 'arraybuffer',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)',
-                'Accept': 'application/pdf'
-            },
-            timeout: 30000
+            timeout: source.timeoutMs
         });
+        return pdfRes.data;
+    }));
+}
 
-        logger.info('✅ Direct fetch success, parsing PDF');
-        return await parseCBEReceipt(response.data);
-    } catch (directErr: any) {
-        logger.warn('⚠️ Direct fetch failed, falling back to Puppeteer:', directErr.message);
+/**
+ * Tries the configured CBE sources in order and returns the first receipt found
+ */
+export async function verifyCBE(
+    reference: string,
+    accountSuffix: string
+): Promise<VerifyResult> {
+    let lastError = 'No CBE receipt sources are configured';
+    let skippedAll = true;
 
-        let browser;
+    for (const source of getProviderSources('cbe')) {
+        const url = sourceUrl(source, { reference, accountSuffix });
         try {
-            browser = await puppeteer.launch({
-                headless: true,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                    '--ignore-certificate-errors',
-                    '--disable-dev-shm-usage',
-                    '--disable-gpu'
-                ],
-                executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined
-            });
-
-            const page = await browser.newPage();
-            let detectedPdfUrl: string | null = null;
-
-            page.on('response', async (response) => {
-                const contentType = response.headers()['content-type'];
-                if (contentType?.includes('pdf')) {
-                    detectedPdfUrl = response.url();
-                    logger.info('🧾 PDF detected:', detectedPdfUrl);
-                }
-            });
-
-            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 20000 });
-            await new Promise(res => setTimeout(res, 3000));
-            await browser.close();
-
-            if (!detectedPdfUrl) {
-                return { success: false, error: 'No PDF detected via Puppeteer.' };
+            const pdfData = source.browser
+                ? await fetchPdfWithBrowser(source, url)
+                : await fetchPdf(source, url);
+            skippedAll = false;
+
+            if (!pdfData) {
+                lastError = `No PDF detected via ${source.id}.`;
+                logger.warn(`⚠️ ${lastError}`);
+                continue;
             }
-
-            const pdfRes = await axios.get(detectedPdfUrl, {
-                httpsAgent,
-                responseType: 'arraybuffer'
-            });
-
-            return await parseCBEReceipt(pdfRes.data);
-        } catch (puppetErr: any) {
-            logger.error('❌ Puppeteer failed:', puppetErr.message);
-            if (browser) await browser.close();
-            return {
-                success: false,
-                error: `Both direct and Puppeteer failed: ${puppetErr.message}`
-            };
+            return await parseCBEReceipt(pdfData);
+        } catch (err: any) {
+            if (SourceHealthService.isSkip(err)) {
+                logger.info(`Skipping CBE source ${source.id}: ${err.message}`);
+                continue;
+            }
+            skippedAll = false;
+            lastError = `${source.id} failed: ${err.message}`;
+            logger.warn(`⚠️ CBE source ${lastError}`);
         }
     }
+
+    if (skippedAll) {
+        return { success: false, error: 'CBE receipt sources are temporarily unavailable' };
+    }
+    logger.error('❌ All CBE receipt sources failed:', lastError);
+    return { success: false, error: lastError };
 }
 
-async function parseCBEReceipt(buffer: ArrayBuffer): Promise<VerifyResult> {
+/**
+ * Extracts the transfer details from a CBE receipt PDF
+ * @param buffer The PDF, fetched from CBE or uploaded by a customer
+ */
+export async function parseCBEReceipt(buffer: ArrayBuffer | Buffer): Promise<VerifyResult> {
     try {
-        const parsed = await pdf(Buffer.from(buffer));
+        const parsed = await pdf(Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer));
         const rawText = parsed.text.replace(/\s+/g, ' ').trim();
 
         let payerName = rawText.match(/Payer\s*:?\s*(.*?)\s+Account/i)?.[1]?.trim();
@@ -114,7 +177,7 @@ async function parseCBEReceipt(buffer: ArrayBuffer): Promise<VerifyResult> {
         const dateRaw = rawText.match(/Payment Date & Time\s*:?\s*([\d\/,: ]+[APM]{2})/i)?.[1]?.trim();
 
         const amount = amountText ? parseFloat(amountText.replace(/,/g, '')) : undefined;
-        const date = dateRaw ? new Date(dateRaw) : undefined;
+        const date = parseEATMonthFirstDateTime(dateRaw) ?? undefined;
 
         payerName = payerName ? titleCase(payerName) : undefined;
         receiverName = receiverName ? titleCase(receiverName) : undefined;
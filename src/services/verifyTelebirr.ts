@@ -1,6 +1,11 @@
 import axios, { AxiosError } from "axios";
 import * as cheerio from "cheerio";
 import logger from '../utils/logger';
+import { parseAmountToMinor } from '../utils/money';
+import { parseEATDateTime } from '../utils/dates';
+import { NormalizedReceipt, ReceiptStatus } from '../types/receipt';
+import { SourceHealthService } from './sourceHealthService';
+import { getProviderSources, ProviderSource, sourceUrl } from './providers/sourceConfig';
 
 export interface TelebirrReceipt {
     payerName: string;
@@ -16,6 +21,42 @@ export interface TelebirrReceipt {
     totalPaidAmount: string;
 }
 
+/**
+ * Maps a scraped Telebirr receipt onto the canonical receipt shape
+ * @param receipt The scraped receipt
+ * @returns The normalized receipt with amounts in santim and the payment date in UTC
+ */
+export function normalizeTelebirrReceipt(receipt: TelebirrReceipt): NormalizedReceipt<TelebirrReceipt> {
+    const amount = parseAmountToMinor(receipt.settledAmount) ?? 0;
+    const fee = parseAmountToMinor(receipt.serviceFee) ?? 0;
+    const vat = parseAmountToMinor(receipt.serviceFeeVAT) ?? 0;
+    const paymentDate = parseEATDateTime(receipt.paymentDate);
+
+    const transactionStatus = receipt.transactionStatus.trim().toLowerCase();
+    const status: ReceiptStatus = ['completed', 'pending', 'failed'].includes(transactionStatus)
+        ? transactionStatus as ReceiptStatus
+        : 'unknown';
+
+    return {
+        provider: 'Telebirr',
+        reference: receipt.receiptNo,
+        payerName: receipt.payerName || null,
+        payerAccount: receipt.payerTelebirrNo || null,
+        receiverName: receipt.creditedPartyName || null,
+        receiverAccount: receipt.creditedPartyAccountNo || null,
+        amount,
+        fee,
+        vat,
+        // Prefer the printed total; fall back to the sum of its parts if it could not be scraped
+        totalAmount: parseAmountToMinor(receipt.totalPaidAmount) ?? amount + fee + vat,
+        currency: 'ETB',
+        timestamp: paymentDate ? paymentDate.toISOString() : null,
+        printedTimestamp: receipt.paymentDate || null,
+        status,
+        raw: receipt
+    };
+}
+
 /**
  * Enhanced regex-based extractor for settled amount - multiple patterns like PHP version
  * @param htmlContent The raw HTML content
@@ -259,6 +300,16 @@ function scrapeTelebirrReceipt(html: string): TelebirrReceipt {
     };
 }
 
+/**
+ * Parses a Telebirr receipt page saved as HTML, e.g. by a customer from their browser
+ * @param html The saved receipt page
+ * @returns The receipt data, or null if the page is not a readable receipt
+ */
+export function parseTelebirrReceiptHtml(html: string): TelebirrReceipt | null {
+    const receipt = scrapeTelebirrReceipt(html);
+    return isValidReceipt(receipt) ? receipt : null;
+}
+
 /**
  * Parses Telebirr receipt data from JSON response
  * @param jsonData The JSON data from the proxy endpoint
@@ -294,106 +345,87 @@ function parseTelebirrJson(jsonData: any): TelebirrReceipt | null {
 }
 
 /**
- * Fetches and processes Telebirr receipt data from the primary source (HTML)
- * @param reference The Telebirr reference number
- * @param baseUrl The base URL to fetch the receipt from
- * @returns The scraped receipt data or null if failed
+ * Reads a Telebirr receipt from a source's response with the source's parser. JSON sources
+ * that answer with HTML are scraped instead.
  */
-async function fetchFromPrimarySource(reference: string, baseUrl: string): Promise<TelebirrReceipt | null> {
-    const url = `${baseUrl}${reference}`;
-
-    try {
-        logger.info(`Attempting to fetch Telebirr receipt from primary source: ${url}`);
-        const response = await axios.get(url, { timeout: 15000 }); // 15 second timeout
-        logger.debug(`Received response with status: ${response.status}`);
-
-        const extractedData = scrapeTelebirrReceipt(response.data);
-
-        logger.debug("Extracted data from HTML:", extractedData);
-        logger.info(`Successfully extracted Telebirr data for reference: ${reference}`, {
-            receiptNo: extractedData.receiptNo,
-            payerName: extractedData.payerName,
-            transactionStatus: extractedData.transactionStatus,
-            settledAmount: extractedData.settledAmount,
-            serviceFee: extractedData.serviceFee
-        });
-
-        return extractedData;
-    } catch (error) {
-        // Enhanced error logging with request details
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        const errorStack = error instanceof Error ? error.stack : undefined;
-
-        // Check if it's an Axios error to safely access response properties
-        const axiosError = error as AxiosError;
-        const responseDetails = axiosError.response ? {
-            status: axiosError.response.status,
-            statusText: axiosError.response.statusText,
-            responseData: axiosError.response.data
-        } : {};
+function parseSourceResponse(source: ProviderSource, body: any): TelebirrReceipt | null {
+    if (source.parser === 'html') {
+        return scrapeTelebirrReceipt(body);
+    }
 
-        logger.error(`Error fetching Telebirr receipt from primary source ${url}:`, {
-            error: errorMessage,
-            stack: errorStack,
-            ...responseDetails
-        });
+    // Check if response is JSON
+    let data = body;
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch (e) {
+            logger.warn(`${source.id} response is not valid JSON, attempting to scrape as HTML`);
+            // If it's not JSON, try to scrape it as HTML
+            return scrapeTelebirrReceipt(body);
+        }
+    }
 
-        return null;
+    const extractedData = parseTelebirrJson(data);
+    if (!extractedData && typeof body === 'string') {
+        logger.warn(`Failed to parse JSON from ${source.id}, attempting to scrape as HTML`);
+        // If JSON parsing fails, try to scrape it as HTML
+        return scrapeTelebirrReceipt(body);
     }
+    return extractedData;
 }
 
 /**
- * Fetches and processes Telebirr receipt data from the fallback proxy (JSON)
+ * Fetches and processes Telebirr receipt data from one configured source
+ * @param source The source to fetch from
  * @param reference The Telebirr reference number
- * @param proxyUrl The proxy URL to fetch the receipt from
- * @returns The parsed receipt data or null if failed
+ * @returns The receipt data or null if failed
  */
-async function fetchFromProxySource(reference: string, proxyUrl: string): Promise<TelebirrReceipt | null> {
-    const url = `${proxyUrl}${reference}`;
+async function fetchFromSource(source: ProviderSource, reference: string): Promise<TelebirrReceipt | null> {
+    const url = sourceUrl(source, { reference });
 
     try {
-        logger.info(`Attempting to fetch Telebirr receipt from proxy: ${url}`);
-        const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-                'Accept': 'application/json',
-                'User-Agent': 'VerifierAPI/1.0'
-            }
-        });
-
-        logger.debug(`Received proxy response with status: ${response.status}`);
-
-        // Check if response is JSON
-        let data = response.data;
-        if (typeof data === 'string') {
-            try {
-                data = JSON.parse(data);
-            } catch (e) {
-                logger.warn("Proxy response is not valid JSON, attempting to scrape as HTML");
-                // If it's not JSON, try to scrape it as HTML
-                return scrapeTelebirrReceipt(response.data);
-            }
+        logger.info(`Attempting to fetch Telebirr receipt from ${source.id}: ${url}`);
+        // Only server errors and network failures count against the source
+        const response = await SourceHealthService.call(source.id, () =>
+            axios.get(url, {
+                timeout: source.timeoutMs,
+                headers: source.headers,
+                httpsAgent: source.httpsAgent,
+                validateStatus: status => status < 500
+            })
+        );
+        logger.debug(`Received response with status: ${response.status}`);
+        if (response.status >= 400) {
+            logger.warn(`Telebirr source ${source.id} returned ${response.status} for reference: ${reference}`);
+            return null;
         }
 
-        const extractedData = parseTelebirrJson(data);
+        const extractedData = parseSourceResponse(source, response.data);
         if (!extractedData) {
-            logger.warn("Failed to parse JSON from proxy, attempting to scrape as HTML");
-            // If JSON parsing fails, try to scrape it as HTML
-            return scrapeTelebirrReceipt(response.data);
+            return null;
         }
 
-        logger.debug("Extracted data from JSON:", extractedData);
-        logger.info(`Successfully extracted Telebirr data from proxy for reference: ${reference}`, {
+        logger.debug(`Extracted data from ${source.id}:`, extractedData);
+        logger.info(`Successfully extracted Telebirr data from ${source.id} for reference: ${reference}`, {
             receiptNo: extractedData.receiptNo,
             payerName: extractedData.payerName,
-            transactionStatus: extractedData.transactionStatus
+            transactionStatus: extractedData.transactionStatus,
+            settledAmount: extractedData.settledAmount,
+            serviceFee: extractedData.serviceFee
         });
 
         return extractedData;
     } catch (error) {
+        if (SourceHealthService.isSkip(error)) {
+            logger.info(`Skipping Telebirr source: ${error.message}`);
+            return null;
+        }
+
+        // Enhanced error logging with request details
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         const errorStack = error instanceof Error ? error.stack : undefined;
 
+        // Check if it's an Axios error to safely access response properties
         const axiosError = error as AxiosError;
         const responseDetails = axiosError.response ? {
             status: axiosError.response.status,
@@ -401,7 +433,7 @@ async function fetchFromProxySource(reference: string, proxyUrl: string): Promis
             responseData: axiosError.response.data
         } : {};
 
-        logger.error(`Error fetching Telebirr receipt from proxy ${url}:`, {
+        logger.error(`Error fetching Telebirr receipt from ${source.id} ${url}:`, {
             error: errorMessage,
             stack: errorStack,
             ...responseDetails
@@ -412,26 +444,15 @@ async function fetchFromProxySource(reference: string, proxyUrl: string): Promis
 }
 
 export async function verifyTelebirr(reference: string): Promise<TelebirrReceipt | null> {
-    const primaryUrl = "https://transactioninfo.ethiotelecom.et/receipt/";
-    const fallbackUrl = "https://leul.et/verify.php?reference=";
-
-    const skipPrimary = process.env.SKIP_PRIMARY_VERIFICATION === "true";
-
-    if (!skipPrimary) {
-        const primaryResult = await fetchFromPrimarySource(reference, primaryUrl);
-        if (primaryResult && isValidReceipt(primaryResult)) return primaryResult;
-        logger.warn(`Primary Telebirr verification failed for reference: ${reference}. Trying fallback proxy...`);
-    } else {
-        logger.info(`Skipping primary verifier due to SKIP_PRIMARY_VERIFICATION=true`);
-    }
-
-    const fallbackResult = await fetchFromProxySource(reference, fallbackUrl);
-    if (fallbackResult && isValidReceipt(fallbackResult)) {
-        logger.info(`Successfully verified Telebirr receipt using fallback proxy for reference: ${reference}`);
-        return fallbackResult;
+    // Sources are tried in their configured order; ones whose circuit is open or that an
+    // admin disabled are skipped inside the fetch
+    for (const source of getProviderSources('telebirr')) {
+        const result = await fetchFromSource(source, reference);
+        if (result && isValidReceipt(result)) return result;
+        logger.warn(`Telebirr source ${source.id} could not verify reference: ${reference}`);
     }
 
-    logger.error(`Both primary and fallback Telebirr verification failed for reference: ${reference}`);
+    logger.error(`All Telebirr sources failed for reference: ${reference}`);
     return null;
 }
 
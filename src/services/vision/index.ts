@@ -0,0 +1,66 @@
+import logger from "../../utils/logger";
+import { getProvider, PaymentProvider } from "../providers";
+import { AppError, ErrorType } from "../../utils/errorHandler";
+import { VisionProvider } from "./visionProvider";
+import { mistralVision } from "./mistralVision";
+import { tesseractVision } from "./tesseractVision";
+
+export * from "./visionProvider";
+export { parseReceiptText } from "./tesseractVision";
+
+// Registered vision providers in default fallback order
+const visionProviders: VisionProvider[] = [mistralVision, tesseractVision];
+
+export interface ReceiptImageExtraction {
+    provider: PaymentProvider;
+    reference: string;
+    /** Id of the vision provider that read the receipt */
+    extractedBy: string;
+}
+
+/**
+ * Configured vision providers in the order they are tried: VISION_PRIMARY first
+ * (default "mistral"), then the rest in registration order
+ */
+export function getVisionProviders(): VisionProvider[] {
+    const primary = (process.env.VISION_PRIMARY || "mistral").toLowerCase();
+    return visionProviders
+        .filter(vision => vision.isConfigured())
+        .sort((a, b) => Number(b.id === primary) - Number(a.id === primary));
+}
+
+/**
+ * Identifies the provider and reference on a receipt image, falling back to the next
+ * vision provider when one fails or finds no receipt
+ * @returns The provider and reference, or null if no provider recognized the receipt
+ * @throws AppError when every vision provider failed
+ */
+export async function extractReceiptReference(imageBuffer: Buffer): Promise<ReceiptImageExtraction | null> {
+    let lastError: unknown;
+    let readByAny = false;
+
+    for (const vision of getVisionProviders()) {
+        try {
+            const result = await vision.extract(imageBuffer);
+            readByAny = true;
+            const provider = result ? getProvider(result.type) : undefined;
+            if (result && provider) {
+                return { provider, reference: result.reference, extractedBy: vision.id };
+            }
+            logger.info(`Vision provider ${vision.id} found no receipt, trying the next one`);
+        } catch (error) {
+            lastError = error;
+            logger.warn(`Vision provider ${vision.id} failed, trying the next one`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    if (readByAny) {
+        return null;
+    }
+    if (lastError instanceof AppError) {
+        throw lastError;
+    }
+    throw new AppError("Invalid OCR response", ErrorType.INTERNAL, 500);
+}
@@ -0,0 +1,78 @@
+import { Mistral } from "@mistralai/mistralai";
+import logger from "../../utils/logger";
+import { AppError, ErrorType } from "../../utils/errorHandler";
+import { VisionProvider } from "./visionProvider";
+
+const PROMPT = `
+You are a payment receipt analyzer. Based on the uploaded image, determine:
+- If the receipt was issued by Telebirr or the Commercial Bank of Ethiopia (CBE).
+- If it's a CBE receipt, extract the transaction ID (usually starts with 'FT').
+- If it's a Telebirr receipt, extract the transaction number (usually starts with 'CE').
+
+Rules:
+- CBE receipts usually include a purple header with the title "Commercial Bank of Ethiopia" and a structured table.
+- Telebirr receipts are typically green with a large minus sign before the amount.
+- CBE receipts may mention Telebirr (as the receiver) but are still CBE receipts.
+
+Return this JSON format exactly:
+{
+  "type": "telebirr" | "cbe",
+  "transaction_id"?: "FTxxxx" (if CBE),
+  "transaction_number"?: "CExxxx" (if Telebirr)
+}
+`.trim();
+
+let client: Mistral | null = null;
+
+const getClient = (): Mistral => {
+    client ??= new Mistral({ apiKey: process.env.MISTRAL_API_KEY! });
+    return client;
+};
+
+/**
+ * Receipt reading with Mistral's pixtral-12b vision model
+ */
+export const mistralVision: VisionProvider = {
+    id: "mistral",
+
+    isConfigured() {
+        return Boolean(process.env.MISTRAL_API_KEY);
+    },
+
+    async extract(imageBuffer) {
+        logger.info("Sending image to Mistral Vision...");
+
+        const chatResponse = await getClient().chat.complete({
+            model: "pixtral-12b",
+            messages: [
+                {
+                    role: "user",
+                    content: [
+                        { type: "text", text: PROMPT },
+                        {
+                            type: "image_url",
+                            imageUrl: `data:image/jpeg;base64,${imageBuffer.toString("base64")}`,
+                        },
+                    ],
+                },
+            ],
+            responseFormat: { type: "json_object" },
+        });
+
+        const messageContent = chatResponse.choices?.[0]?.message?.content;
+
+        if (!messageContent || typeof messageContent !== "string") {
+            logger.error("Invalid Mistral response", { messageContent });
+            throw new AppError("Invalid OCR response", ErrorType.INTERNAL, 500);
+        }
+
+        const result = JSON.parse(messageContent);
+        logger.info("OCR Result", result);
+
+        const reference = result.transaction_id || result.transaction_number;
+        if (typeof result.type !== "string" || !reference) {
+            return null;
+        }
+        return { type: result.type, reference };
+    },
+};
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseReceiptText } from "./tesseractVision";
+
+test("finds CBE transaction IDs, repairing spaces and the letter O read for zero", () => {
+    assert.deepEqual(parseReceiptText("Transaction ID: FT25123ABCDE"), { type: "cbe", reference: "FT25123ABCDE" });
+    assert.deepEqual(parseReceiptText("ref f t 25O12ABCDE done"), { type: "cbe", reference: "FT25012ABCDE" });
+});
+
+test("prefers the CBE reference when a transfer to a Telebirr wallet mentions Telebirr", () => {
+    const text = "Commercial Bank of Ethiopia\nReceiver: telebirr CE12345678\nReference FT25123ABCDE";
+    assert.deepEqual(parseReceiptText(text), { type: "cbe", reference: "FT25123ABCDE" });
+});
+
+test("finds Telebirr transaction numbers, with or without the CE prefix", () => {
+    assert.deepEqual(parseReceiptText("telebirr\nTransaction Number: ce4abc1234"), { type: "telebirr", reference: "CE4ABC1234" });
+    assert.deepEqual(parseReceiptText("telebirr\nTransaction No. - DA81XYZ123"), { type: "telebirr", reference: "DA81XYZ123" });
+});
+
+test("returns null when no reference is recognized", () => {
+    assert.equal(parseReceiptText(""), null);
+    assert.equal(parseReceiptText("Transaction Number: DA81XYZ123"), null);
+    assert.equal(parseReceiptText("Thank you for shopping with us"), null);
+});
@@ -0,0 +1,78 @@
+import { createWorker, Worker } from "tesseract.js";
+import logger from "../../utils/logger";
+import { VisionExtraction, VisionProvider } from "./visionProvider";
+
+// CBE transaction IDs: "FT" followed by ten letters and digits, e.g. FT25123ABCDE
+const CBE_REFERENCE = /\bFT[0-9]{5}[A-Z0-9]{5}\b/;
+
+// Telebirr transaction numbers are ten letters and digits, usually starting with "CE"
+const TELEBIRR_REFERENCE = /\bCE[A-Z0-9]{8}\b/;
+const TELEBIRR_LABELLED_REFERENCE = /TRANSACTION\s*(?:NUMBER|NO\.?)\s*[:\-]?\s*([A-Z0-9]{10})\b/;
+
+let worker: Promise<Worker> | null = null;
+
+/**
+ * Shared worker, started on first use. TESSERACT_LANG_PATH points at a directory holding
+ * eng.traineddata so the worker starts without downloading language data.
+ */
+const getWorker = (): Promise<Worker> => {
+    worker ??= createWorker("eng", undefined, {
+        ...(process.env.TESSERACT_LANG_PATH && { langPath: process.env.TESSERACT_LANG_PATH, gzip: false }),
+        cachePath: process.env.TESSERACT_CACHE_PATH || ".tesseract-cache",
+    }).catch(error => {
+        // Let the next request retry instead of reusing a failed start
+        worker = null;
+        throw error;
+    });
+    return worker;
+};
+
+/**
+ * Finds the provider and reference in text read off a receipt. CBE receipts win when both
+ * appear, since CBE transfers to Telebirr wallets mention Telebirr as the receiver.
+ */
+export const parseReceiptText = (text: string): VisionExtraction | null => {
+    // OCR often splits references with spaces or reads the letter O for zero after "FT"
+    const normalized = text.toUpperCase().replace(/\bF\s*T\s*([0-9O]{5})/g, (_, digits: string) => `FT${digits.replace(/O/g, "0")}`);
+
+    const cbe = normalized.match(CBE_REFERENCE);
+    if (cbe) {
+        return { type: "cbe", reference: cbe[0] };
+    }
+
+    const telebirr = normalized.match(TELEBIRR_REFERENCE);
+    if (telebirr) {
+        return { type: "telebirr", reference: telebirr[0] };
+    }
+
+    if (normalized.includes("TELEBIRR")) {
+        const labelled = normalized.match(TELEBIRR_LABELLED_REFERENCE);
+        if (labelled) {
+            return { type: "telebirr", reference: labelled[1] };
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Local receipt reading with tesseract.js; needs no API key or network once language
+ * data is available
+ */
+export const tesseractVision: VisionProvider = {
+    id: "tesseract",
+
+    isConfigured() {
+        return true;
+    },
+
+    async extract(imageBuffer) {
+        logger.info("Reading image with local OCR...");
+
+        const { data } = await (await getWorker()).recognize(imageBuffer);
+        const result = parseReceiptText(data.text);
+        logger.info("OCR Result", { source: "tesseract", result });
+
+        return result;
+    },
+};
@@ -0,0 +1,27 @@
+/**
+ * What a vision provider read off a receipt image
+ */
+export interface VisionExtraction {
+    /** Payment provider named on the receipt, e.g. "cbe" or "telebirr" (resolved case-insensitively) */
+    type: string;
+    reference: string;
+}
+
+/**
+ * Something that can read the payment provider and reference off a receipt image.
+ * Adding an OCR engine means implementing this interface and registering it.
+ */
+export interface VisionProvider {
+    /** Identifier used in VISION_PRIMARY and reported as extractedBy */
+    id: string;
+
+    /** Whether the provider can be used with the current configuration */
+    isConfigured(): boolean;
+
+    /**
+     * Reads the receipt
+     * @returns The provider type and reference, or null if the image is not a recognizable receipt
+     * @throws When the engine fails, so the next provider can be tried
+     */
+    extract(imageBuffer: Buffer): Promise<VisionExtraction | null>;
+}
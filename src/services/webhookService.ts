@@ -3,6 +3,18 @@ import crypto from 'crypto';
 import logger from '../utils/logger';
 import { prisma } from '../utils/prisma';
 
+// Event types merchants can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  'payment_intent.created',
+  'payment_intent.partially_paid',
+  'payment_intent.confirmed',
+  'payment_intent.failed',
+  'payment_intent.expired',
+  'payment_intent.canceled',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
 export interface WebhookEvent {
   id: string;
   type: string;
@@ -129,7 +141,7 @@ export class WebhookService {
    */
   static async sendWebhookToMerchant(
     merchant: string,
-    eventType: string,
+    eventType: WebhookEventType,
     eventData: any
   ): Promise<void> {
     try {
@@ -0,0 +1,33 @@
+/**
+ * Status of a payment as reported on a provider receipt
+ */
+export type ReceiptStatus = 'completed' | 'pending' | 'failed' | 'unknown';
+
+/**
+ * Canonical receipt shape produced by every payment provider.
+ * Monetary values are integers in minor units (santim for ETB).
+ */
+export interface NormalizedReceipt<TRaw = unknown> {
+    provider: string;
+    reference: string;
+    payerName: string | null;
+    payerAccount: string | null;
+    receiverName: string | null;
+    receiverAccount: string | null;
+    /** Amount credited to the receiver */
+    amount: number;
+    /** Service fee charged to the payer, excluding VAT */
+    fee: number;
+    /** VAT charged on the service fee */
+    vat: number;
+    /** Total debited from the payer (amount + fee + vat) */
+    totalAmount: number;
+    currency: string;
+    /** Payment time as an ISO-8601 UTC string */
+    timestamp: string | null;
+    /** Payment time as printed on the receipt, for providers that return it as text */
+    printedTimestamp?: string | null;
+    status: ReceiptStatus;
+    /** Provider-specific payload the receipt was normalized from */
+    raw: TRaw;
+}
@@ -0,0 +1,30 @@
+// East Africa Time (UTC+3, no daylight saving) - the zone Ethiopian receipts are printed in
+const EAT_OFFSET_HOURS = 3;
+
+/**
+ * Parses a "DD-MM-YYYY HH:MM:SS" date printed in East Africa Time into a UTC Date
+ * @returns The parsed date, or null if the text does not match the format
+ */
+export const parseEATDateTime = (text: string | null | undefined): Date | null => {
+    const match = text?.trim().match(/^(\d{2})-(\d{2})-(\d{4})\s+(\d{2}):(\d{2}):(\d{2})$/);
+    if (!match) return null;
+
+    const [, day, month, year, hours, minutes, seconds] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hours - EAT_OFFSET_HOURS, minutes, seconds));
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parses a "M/D/YYYY, h:mm:ss AM" date printed in East Africa Time (as on CBE receipts) into a UTC Date
+ * @returns The parsed date, or null if the text does not match the format
+ */
+export const parseEATMonthFirstDateTime = (text: string | null | undefined): Date | null => {
+    const match = text?.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)$/i);
+    if (!match) return null;
+
+    const [month, day, year, hours12, minutes, seconds] = match.slice(1, 7).map(value => Number(value ?? 0));
+    if (hours12 < 1 || hours12 > 12) return null;
+    const hours = (hours12 % 12) + (match[7].toUpperCase() === 'PM' ? 12 : 0);
+    const date = new Date(Date.UTC(year, month - 1, day, hours - EAT_OFFSET_HOURS, minutes, seconds));
+    return isNaN(date.getTime()) ? null : date;
+};
@@ -0,0 +1,37 @@
+import logger from './logger';
+
+/**
+ * Reads a numeric setting, falling back to the default when it is unset or fails the check
+ */
+const numberEnv = (name: string, fallback: number, isValid: (value: number) => boolean, expected: string): number => {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') {
+        return fallback;
+    }
+
+    const value = Number(raw.trim());
+    if (!Number.isFinite(value) || !isValid(value)) {
+        logger.warn(`${name}=${raw} is not ${expected}, using ${fallback}`);
+        return fallback;
+    }
+    return value;
+};
+
+/**
+ * Reads a positive integer setting, falling back to the default when it is unset or invalid
+ * so a typo cannot leave a limit at NaN or zero
+ */
+export const positiveIntEnv = (name: string, fallback: number): number =>
+    numberEnv(name, fallback, value => Number.isInteger(value) && value > 0, 'a positive integer');
+
+/**
+ * Reads a setting that may be zero or a positive integer, falling back to the default when it is unset or invalid
+ */
+export const nonNegativeIntEnv = (name: string, fallback: number): number =>
+    numberEnv(name, fallback, value => Number.isInteger(value) && value >= 0, 'zero or a positive integer');
+
+/**
+ * Reads a number setting that must lie between min and max inclusive, falling back to the default otherwise
+ */
+export const rangeEnv = (name: string, fallback: number, min: number, max: number): number =>
+    numberEnv(name, fallback, value => value >= min && value <= max, `a number from ${min} to ${max}`);
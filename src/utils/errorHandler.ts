@@ -3,6 +3,7 @@ import {
     PrismaClientKnownRequestError,
     PrismaClientValidationError,
 } from '@prisma/client/runtime/library';
+import { ZodError } from 'zod';
 import logger from './logger';
 import { Response } from 'express';
 
@@ -12,21 +13,24 @@ export enum ErrorType {
     VALIDATION = 'VALIDATION',
     UNAUTHORIZED = 'UNAUTHORIZED',
     FORBIDDEN = 'FORBIDDEN',
+    CONFLICT = 'CONFLICT',
     DATABASE = 'DATABASE',
     INTERNAL = 'INTERNAL',
 }
 
-// Custom error class with type and status code
+// Custom error class with type, status code and an optional machine-readable code
 export class AppError extends Error {
     type: ErrorType;
     statusCode: number;
     details?: any;
+    code?: string;
 
-    constructor(message: string, type: ErrorType, statusCode: number, details?: any) {
+    constructor(message: string, type: ErrorType, statusCode: number, details?: any, code?: string) {
         super(message);
         this.type = type;
         this.statusCode = statusCode;
         this.details = details;
+        this.code = code;
         this.name = 'AppError';
     }
 }
@@ -71,6 +75,16 @@ export const handlePrismaError = (error: any): AppError => {
             ErrorType.VALIDATION,
             400
         );
+    } else if (error instanceof ZodError) {
+        // Handle request validation errors
+        const issue = error.issues[0];
+        const field = issue?.path.join('.');
+        return new AppError(
+            issue ? `Invalid request: ${field ? `${field}: ` : ''}${issue.message}` : 'Invalid request.',
+            ErrorType.VALIDATION,
+            400,
+            { issues: error.issues }
+        );
     } else if (error instanceof AppError) {
         // Pass through our custom errors
         return error;
@@ -92,6 +106,8 @@ export const sendErrorResponse = (res: Response, error: any) => {
     res.status(appError.statusCode).json({
         success: false,
         error: appError.message,
-        ...(process.env.NODE_ENV === 'development' && { details: appError.details })
+        ...(appError.code && { code: appError.code }),
+        // Conflict details describe the state that won and are safe to return
+        ...((process.env.NODE_ENV === 'development' || appError.type === ErrorType.CONFLICT) && { details: appError.details })
     });
 };
\ No newline at end of file
@@ -30,7 +30,9 @@ export const migrateApiKeys = async (inMemoryApiKeys: Map<string, any>) => {
                     const newKey = await tx.apiKey.create({
                         data: {
                             key,
-                            owner: data.owner,
+                            merchant: {
+                                connectOrCreate: { where: { name: data.owner }, create: { name: data.owner } }
+                            },
                             usageCount: data.usageCount || 0,
                             lastUsed: data.lastUsed ? new Date(data.lastUsed) : null,
                             isActive: data.isActive !== false // Default to true if not specified
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { amountSchema, amountToMinor, MAX_AMOUNT, parseAmountToMinor, positiveAmountSchema } from './money';
+
+test('accepts amounts as numbers or decimal strings with up to two places', () => {
+  assert.equal(amountSchema.parse(100).toFixed(2), '100.00');
+  assert.equal(amountSchema.parse(' 12.5 ').toFixed(2), '12.50');
+  assert.equal(amountSchema.safeParse('1.005').success, false);
+  assert.equal(amountSchema.safeParse('1e3').success, false);
+  assert.equal(amountSchema.safeParse(-1).success, false);
+});
+
+test('rejects amounts larger than the DECIMAL(14, 2) columns hold', () => {
+  assert.equal(amountSchema.parse(MAX_AMOUNT).toFixed(2), MAX_AMOUNT);
+  assert.equal(amountSchema.safeParse('1000000000000').success, false);
+  assert.equal(positiveAmountSchema.safeParse('1000000000000.00').success, false);
+});
+
+test('rejects zero as a positive amount', () => {
+  assert.equal(positiveAmountSchema.safeParse(0).success, false);
+});
+
+test('parses receipt amounts into minor units without floating point', () => {
+  assert.equal(parseAmountToMinor('1,250.50 Birr'), 125050);
+  assert.equal(parseAmountToMinor('ETB 100'), 10000);
+  assert.equal(parseAmountToMinor('0.1'), 10);
+  assert.equal(parseAmountToMinor('no amount'), null);
+  assert.equal(amountToMinor('19.99'), 1999);
+});
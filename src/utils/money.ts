@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+// Amounts are stored as DECIMAL(14, 2) and compared as integer minor units (santim)
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Largest amount DECIMAL(14, 2) holds
+export const MAX_AMOUNT = '999999999999.99';
+
+export type AmountValue = Prisma.Decimal | string | number;
+
+/**
+ * Schema for amounts supplied by API clients, as a JSON number or a decimal string.
+ * Rejects negative values, exponent notation, more than two decimal places and amounts
+ * too large for the database columns.
+ */
+export const amountSchema = z
+    .union([z.number(), z.string()])
+    .refine(value => (typeof value === 'number' ? Number.isFinite(value) : true) && AMOUNT_PATTERN.test(String(value).trim()), {
+        message: 'Amount must be a decimal with at most two decimal places',
+    })
+    .transform(value => new Prisma.Decimal(String(value).trim()))
+    .refine(value => value.lessThanOrEqualTo(MAX_AMOUNT), { message: `Amount must be at most ${MAX_AMOUNT}` });
+
+/**
+ * Schema for a strictly positive amount
+ */
+export const positiveAmountSchema = amountSchema.refine(value => value.greaterThan(0), {
+    message: 'Amount must be greater than zero',
+});
+
+/**
+ * Parses an amount as printed on a receipt (e.g. "1,250.50 Birr", "ETB 100") into minor units
+ * without going through floating point.
+ * @returns The amount in minor units, or null if no amount could be found
+ */
+export const parseAmountToMinor = (text: string | null | undefined): number | null => {
+    if (!text) return null;
+
+    const match = text.replace(/,/g, '').match(/(\d+)(?:\.(\d{1,2}))?/);
+    if (!match) return null;
+
+    const major = parseInt(match[1], 10);
+    const minor = parseInt((match[2] || '').padEnd(2, '0'), 10);
+    return major * 100 + minor;
+};
+
+/**
+ * Converts an amount in major units to integer minor units
+ */
+export const amountToMinor = (amount: AmountValue): number =>
+    new Prisma.Decimal(amount).times(100).toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP).toNumber();
+
+/**
+ * Converts integer minor units to an exact decimal amount in major units
+ */
+export const minorToAmount = (minor: number): Prisma.Decimal => new Prisma.Decimal(minor).dividedBy(100);
+
+/**
+ * Formats minor units for messages, e.g. 10050 -> "100.50"
+ */
+export const formatMinor = (minor: number): string => minorToAmount(minor).toFixed(2);
+
+/**
+ * Renders a stored amount for API responses and webhooks. Values have at most
+ * two decimal places, so the JSON number is an exact decimal representation.
+ */
+export const serializeAmount = (amount: AmountValue): { amount: number; amountMinor: number } => ({
+    amount: new Prisma.Decimal(amount).toNumber(),
+    amountMinor: amountToMinor(amount),
+});
@@ -0,0 +1,7 @@
+import { Request } from 'express';
+
+/**
+ * Base URL customers use to reach hosted pages, from CHECKOUT_BASE_URL or the request's host
+ */
+export const getPublicBaseUrl = (req: Request): string =>
+    (process.env.CHECKOUT_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
@@ -0,0 +1,138 @@
+import { Request } from 'express';
+
+// Text for the hosted checkout and payment link pages. Placeholders in braces are filled in by the page.
+export const CHECKOUT_LANGUAGES = ['en', 'am'] as const;
+
+export type CheckoutLanguage = typeof CHECKOUT_LANGUAGES[number];
+
+export interface CheckoutMessages {
+  languageName: string;
+  title: string;
+  payTo: string;
+  account: string;
+  amount: string;
+  method: string;
+  expires: string;
+  instructions: string;
+  partiallyPaid: string;
+  referenceLabel: string;
+  submitReference: string;
+  or: string;
+  uploadLabel: string;
+  submitUpload: string;
+  cancel: string;
+  verificationFailed: string;
+  referenceRequired: string;
+  imageUnreadable: string;
+  processingTitle: string;
+  processingBody: string;
+  succeededTitle: string;
+  succeededBody: string;
+  continue: string;
+  unavailableTitle: string;
+  unavailableBody: string;
+  invalidLinkTitle: string;
+  invalidLinkBody: string;
+  canceledTitle: string;
+  canceledBody: string;
+  amountEntry: string;
+  amountRange: string;
+  proceed: string;
+  linkUnavailableTitle: string;
+  linkUnavailableBody: string;
+  tooManyRequestsTitle: string;
+  tooManyRequestsBody: string;
+}
+
+export const CHECKOUT_MESSAGES: Record<CheckoutLanguage, CheckoutMessages> = {
+  en: {
+    languageName: 'English',
+    title: 'Complete your payment',
+    payTo: 'Pay to',
+    account: 'Account',
+    amount: 'Amount',
+    method: 'Payment method',
+    expires: 'Pay before',
+    instructions: 'Send the exact amount to the account above, then enter the transaction reference from your receipt or upload a screenshot of it.',
+    partiallyPaid: 'Received {received} of {amount}. Send the remaining amount and enter its reference.',
+    referenceLabel: 'Transaction reference',
+    submitReference: 'Confirm payment',
+    or: 'or',
+    uploadLabel: 'Receipt screenshot',
+    submitUpload: 'Upload and confirm',
+    cancel: 'Cancel and return to the merchant',
+    verificationFailed: 'We could not verify this payment',
+    referenceRequired: 'Enter a transaction reference or upload a receipt screenshot.',
+    imageUnreadable: 'We could not find a {provider} transaction reference in this image. Please enter it instead.',
+    processingTitle: 'Verifying your payment',
+    processingBody: 'This can take up to a minute. The page will refresh on its own.',
+    succeededTitle: 'Payment confirmed',
+    succeededBody: 'Thank you. Your payment has been verified.',
+    continue: 'Continue',
+    unavailableTitle: 'Payment unavailable',
+    unavailableBody: 'This payment can no longer be completed. Please contact the merchant.',
+    invalidLinkTitle: 'Link expired',
+    invalidLinkBody: 'This checkout link is invalid or has expired. Please ask the merchant for a new one.',
+    canceledTitle: 'Payment not completed',
+    canceledBody: 'You can close this page.',
+    amountEntry: 'Amount to pay (ETB)',
+    amountRange: 'Enter an amount between {min} and {max} ETB.',
+    proceed: 'Continue to payment',
+    linkUnavailableTitle: 'Link unavailable',
+    linkUnavailableBody: 'This payment link is no longer accepting payments. Please contact the merchant.',
+    tooManyRequestsTitle: 'Too many attempts',
+    tooManyRequestsBody: 'Please wait a minute and try again.',
+  },
+  am: {
+    languageName: 'አማርኛ',
+    title: 'ክፍያዎን ያጠናቅቁ',
+    payTo: 'ተቀባይ',
+    account: 'የሂሳብ ቁጥር',
+    amount: 'መጠን',
+    method: 'የክፍያ ዘዴ',
+    expires: 'የመጨረሻ ጊዜ',
+    instructions: 'ትክክለኛውን መጠን ከላይ ወዳለው ሂሳብ ይላኩ፣ ከዚያም ከደረሰኝዎ ላይ ያለውን የግብይት ቁጥር ያስገቡ ወይም የደረሰኙን ምስል ይጫኑ።',
+    partiallyPaid: 'ከ{amount} ውስጥ {received} ደርሷል። ቀሪውን መጠን ልከው የግብይት ቁጥሩን ያስገቡ።',
+    referenceLabel: 'የግብይት ቁጥር',
+    submitReference: 'ክፍያውን አረጋግጥ',
+    or: 'ወይም',
+    uploadLabel: 'የደረሰኝ ምስል',
+    submitUpload: 'ጫን እና አረጋግጥ',
+    cancel: 'ሰርዝ እና ወደ ነጋዴው ተመለስ',
+    verificationFailed: 'ይህን ክፍያ ማረጋገጥ አልተቻለም',
+    referenceRequired: 'የግብይት ቁጥር ያስገቡ ወይም የደረሰኝ ምስል ይጫኑ።',
+    imageUnreadable: 'በዚህ ምስል ላይ የ{provider} የግብይት ቁጥር ማግኘት አልተቻለም። እባክዎ ቁጥሩን ያስገቡ።',
+    processingTitle: 'ክፍያዎ እየተረጋገጠ ነው',
+    processingBody: 'ይህ እስከ አንድ ደቂቃ ሊወስድ ይችላል። ገጹ በራሱ ይታደሳል።',
+    succeededTitle: 'ክፍያው ተረጋግጧል',
+    succeededBody: 'እናመሰግናለን። ክፍያዎ ተረጋግጧል።',
+    continue: 'ቀጥል',
+    unavailableTitle: 'ክፍያው አይገኝም',
+    unavailableBody: 'ይህ ክፍያ ከእንግዲህ ሊጠናቀቅ አይችልም። እባክዎ ነጋዴውን ያነጋግሩ።',
+    invalidLinkTitle: 'ማገናኛው ጊዜው አልፎበታል',
+    invalidLinkBody: 'ይህ የክፍያ ማገናኛ ልክ ያልሆነ ወይም ጊዜው ያለፈበት ነው። እባክዎ ከነጋዴው አዲስ ይጠይቁ።',
+    canceledTitle: 'ክፍያው አልተጠናቀቀም',
+    canceledBody: 'ይህን ገጽ መዝጋት ይችላሉ።',
+    amountEntry: 'የሚከፈለው መጠን (ብር)',
+    amountRange: 'ከ{min} እስከ {max} ብር ያለ መጠን ያስገቡ።',
+    proceed: 'ወደ ክፍያ ቀጥል',
+    linkUnavailableTitle: 'ማገናኛው አይገኝም',
+    linkUnavailableBody: 'ይህ የክፍያ ማገናኛ ከእንግዲህ ክፍያ አይቀበልም። እባክዎ ነጋዴውን ያነጋግሩ።',
+    tooManyRequestsTitle: 'በጣም ብዙ ሙከራዎች',
+    tooManyRequestsBody: 'እባክዎ አንድ ደቂቃ ቆይተው እንደገና ይሞክሩ።',
+  },
+};
+
+export const isCheckoutLanguage = (value: unknown): value is CheckoutLanguage =>
+  typeof value === 'string' && (CHECKOUT_LANGUAGES as readonly string[]).includes(value);
+
+/**
+ * Language from an explicit choice, falling back to the browser's Accept-Language and then English
+ */
+export const resolveCheckoutLanguage = (req: Request, requested: unknown): CheckoutLanguage => {
+  if (isCheckoutLanguage(requested)) {
+    return requested;
+  }
+  const accepted = req.acceptsLanguages(...CHECKOUT_LANGUAGES);
+  return isCheckoutLanguage(accepted) ? accepted : 'en';
+};
@@ -0,0 +1,129 @@
+import { PaymentIntent } from '@prisma/client';
+import { amountToMinor, formatMinor } from '../utils/money';
+import { CHECKOUT_LANGUAGES, CHECKOUT_MESSAGES, CheckoutLanguage } from './checkoutMessages';
+
+export interface CheckoutPageOptions {
+  lang: CheckoutLanguage;
+  intent: PaymentIntent;
+  token: string;
+  providerName: string;
+  error?: string | null;
+}
+
+export interface CheckoutNoticeOptions {
+  lang: CheckoutLanguage;
+  title: string;
+  body: string;
+  link?: { href: string; label: string };
+  /** Load this URL after a number of seconds */
+  refresh?: { seconds: number; url: string };
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const fill = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+export const formatBirr = (amount: PaymentIntent['amount']): string => `${formatMinor(amountToMinor(amount))} ETB`;
+
+export const layout = (lang: CheckoutLanguage, title: string, body: string, head = ''): string => `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${head}
+<style>
+  body { font-family: system-ui, "Noto Sans Ethiopic", sans-serif; background: #f4f5f7; margin: 0; padding: 24px; color: #1f2933; }
+  main { max-width: 440px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 24px; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.08); }
+  h1 { font-size: 1.4rem; margin-top: 0; }
+  dl { display: grid; grid-template-columns: auto 1fr; gap: 8px 16px; }
+  dt { color: #616e7c; }
+  dd { margin: 0; font-weight: 600; word-break: break-all; }
+  form { margin: 16px 0; }
+  label { display: block; margin-bottom: 6px; }
+  input[type="text"], input[type="file"], input[type="number"], select { width: 100%; box-sizing: border-box; padding: 10px; border: 1px solid #cbd2d9; border-radius: 8px; }
+  button, .button { display: inline-block; margin-top: 10px; padding: 10px 16px; border: 0; border-radius: 8px; background: #3e4c59; color: #fff; font-size: 1rem; text-decoration: none; cursor: pointer; }
+  .error { background: #fde8e8; color: #9b1c1c; padding: 12px; border-radius: 8px; }
+  .notice { background: #e6f6ff; color: #035388; padding: 12px; border-radius: 8px; }
+  .divider { text-align: center; color: #9aa5b1; }
+  .footer { display: flex; justify-content: space-between; margin-top: 24px; font-size: 0.9rem; }
+  .footer a { color: #616e7c; }
+</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+
+/**
+ * Hosted checkout page for an intent that can still take a reference
+ */
+export const renderCheckoutPage = ({ lang, intent, token, providerName, error }: CheckoutPageOptions): string => {
+  const t = CHECKOUT_MESSAGES[lang];
+  const base = `/checkout/${encodeURIComponent(intent.id)}`;
+  const tokenQuery = `token=${encodeURIComponent(token)}`;
+  const otherLanguages = CHECKOUT_LANGUAGES.filter(code => code !== lang)
+    .map(code => `<a href="${base}?${tokenQuery}&amp;lang=${code}">${escapeHtml(CHECKOUT_MESSAGES[code].languageName)}</a>`)
+    .join(' ');
+  const hiddenFields = `<input type="hidden" name="token" value="${escapeHtml(token)}">
+    <input type="hidden" name="lang" value="${lang}">`;
+
+  const partialNotice = intent.status === 'partially_paid'
+    ? `<p class="notice">${escapeHtml(fill(t.partiallyPaid, {
+      received: formatBirr(intent.amountReceived),
+      amount: formatBirr(intent.amount),
+    }))}</p>`
+    : '';
+
+  const body = `<h1>${escapeHtml(t.title)}</h1>
+<dl>
+  <dt>${escapeHtml(t.payTo)}</dt><dd>${escapeHtml(intent.expectedReceiverName ?? intent.merchant)}</dd>
+  <dt>${escapeHtml(t.account)}</dt><dd>${escapeHtml(intent.expectedReceiverAccount)}</dd>
+  <dt>${escapeHtml(t.method)}</dt><dd>${escapeHtml(providerName)}</dd>
+  <dt>${escapeHtml(t.amount)}</dt><dd>${escapeHtml(formatBirr(intent.amount))}</dd>
+  <dt>${escapeHtml(t.expires)}</dt><dd>${escapeHtml(intent.expiresAt.toISOString().replace('T', ' ').slice(0, 16))} UTC</dd>
+</dl>
+${partialNotice}
+${error ? `<p class="error"><strong>${escapeHtml(t.verificationFailed)}:</strong> ${escapeHtml(error)}</p>` : ''}
+<p>${escapeHtml(t.instructions)}</p>
+<form method="post" action="${base}/confirm" enctype="multipart/form-data">
+  ${hiddenFields}
+  <label for="reference">${escapeHtml(t.referenceLabel)}</label>
+  <input type="text" id="reference" name="reference" autocomplete="off" required>
+  <button type="submit">${escapeHtml(t.submitReference)}</button>
+</form>
+<p class="divider">${escapeHtml(t.or)}</p>
+<form method="post" action="${base}/confirm" enctype="multipart/form-data">
+  ${hiddenFields}
+  <label for="file">${escapeHtml(t.uploadLabel)}</label>
+  <input type="file" id="file" name="file" accept="image/*" required>
+  <button type="submit">${escapeHtml(t.submitUpload)}</button>
+</form>
+<div class="footer">
+  <a href="${base}/cancel?${tokenQuery}&amp;lang=${lang}">${escapeHtml(t.cancel)}</a>
+  <span>${otherLanguages}</span>
+</div>`;
+
+  return layout(lang, t.title, body);
+};
+
+/**
+ * Page with a single message, used for results and unusable links
+ */
+export const renderCheckoutNotice = ({ lang, title, body, link, refresh }: CheckoutNoticeOptions): string => {
+  const content = `<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(body)}</p>
+${link ? `<a class="button" href="${escapeHtml(link.href)}">${escapeHtml(link.label)}</a>` : ''}`;
+
+  const head = refresh ? `<meta http-equiv="refresh" content="${refresh.seconds};url=${escapeHtml(refresh.url)}">` : '';
+  return layout(lang, title, content, head);
+};
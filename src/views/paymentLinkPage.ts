@@ -0,0 +1,63 @@
+import { PaymentLink } from '@prisma/client';
+import { amountToMinor, formatMinor } from '../utils/money';
+import { CHECKOUT_LANGUAGES, CHECKOUT_MESSAGES, CheckoutLanguage } from './checkoutMessages';
+import { escapeHtml, fill, formatBirr, layout } from './checkoutPage';
+
+export interface PaymentLinkPageOptions {
+  lang: CheckoutLanguage;
+  link: PaymentLink;
+  /** Provider id and display name for each of the link's payment methods */
+  methods: { id: string; name: string }[];
+  error?: string | null;
+  /** Values to keep in the form after an error */
+  values?: { amount?: string; paymentMethodType?: string };
+}
+
+/**
+ * Page where a customer picks an amount and payment method before a payment intent is created
+ */
+export const renderPaymentLinkPage = ({ lang, link, methods, error, values = {} }: PaymentLinkPageOptions): string => {
+  const t = CHECKOUT_MESSAGES[lang];
+  const base = `/pay/${encodeURIComponent(link.id)}`;
+  const otherLanguages = CHECKOUT_LANGUAGES.filter(code => code !== lang)
+    .map(code => `<a href="${base}?lang=${code}">${escapeHtml(CHECKOUT_MESSAGES[code].languageName)}</a>`)
+    .join(' ');
+
+  let amountField: string;
+  if (link.amount !== null) {
+    amountField = `<dl>
+  <dt>${escapeHtml(t.amount)}</dt><dd>${escapeHtml(formatBirr(link.amount))}</dd>
+</dl>`;
+  } else {
+    const range = link.minAmount !== null && link.maxAmount !== null
+      ? `<p>${escapeHtml(fill(t.amountRange, { min: formatMinor(amountToMinor(link.minAmount)), max: formatMinor(amountToMinor(link.maxAmount)) }))}</p>`
+      : '';
+    amountField = `<label for="amount">${escapeHtml(t.amountEntry)}</label>
+  <input type="number" id="amount" name="amount" step="0.01" min="${link.minAmount?.toFixed(2) ?? '0.01'}"${link.maxAmount !== null ? ` max="${link.maxAmount.toFixed(2)}"` : ''} value="${escapeHtml(values.amount ?? '')}" required>
+  ${range}`;
+  }
+
+  const options = methods
+    .map(method => `<option value="${escapeHtml(method.id)}"${method.id === values.paymentMethodType ? ' selected' : ''}>${escapeHtml(method.name)}</option>`)
+    .join('');
+
+  const body = `<h1>${escapeHtml(link.title)}</h1>
+${link.description ? `<p>${escapeHtml(link.description)}</p>` : ''}
+<dl>
+  <dt>${escapeHtml(t.payTo)}</dt><dd>${escapeHtml(link.expectedReceiverName ?? link.merchant)}</dd>
+</dl>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="${base}">
+  <input type="hidden" name="lang" value="${lang}">
+  ${amountField}
+  <label for="paymentMethodType">${escapeHtml(t.method)}</label>
+  <select id="paymentMethodType" name="paymentMethodType">${options}</select>
+  <button type="submit">${escapeHtml(t.proceed)}</button>
+</form>
+<div class="footer">
+  <span></span>
+  <span>${otherLanguages}</span>
+</div>`;
+
+  return layout(lang, link.title, body);
+};